@@ -0,0 +1,186 @@
+#!/usr/bin/env node
+/**
+ * Build src/resources/confusables.json from Unicode TR39 confusables.txt
+ * (https://www.unicode.org/Public/security/latest/confusables.txt):
+ *
+ *   node scripts/build-confusables.mjs path/to/confusables.txt
+ *
+ * Keeps the Latin-target subset: single non-ASCII code points whose
+ * skeleton prototype folds to ASCII letters and digits. TR39 prototypes
+ * are not always ASCII (Cyrillic "к" -> "ĸ", "т" -> "ᴛ"), so they are
+ * folded further by dropping combining marks and through LATIN_FOLDS.
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+
+const OUT = path.join(
+  path.dirname(new URL(import.meta.url).pathname),
+  '..',
+  'src',
+  'resources',
+  'confusables.json'
+);
+
+// Scripts of running text in other languages. Their letters are left
+// alone so words in those languages are not turned into Latin; Greek,
+// Cyrillic and Armenian stay in, as the usual sources of spoofed Latin.
+const SKIPPED_SCRIPTS = [
+  'Inherited',
+  'Arabic',
+  'Hebrew',
+  'Han',
+  'Hangul',
+  'Thai',
+  'Lao',
+  'Myanmar',
+  'Georgian',
+  'Ethiopic',
+  'Nko',
+  'Devanagari',
+  'Bengali',
+  'Gurmukhi',
+  'Gujarati',
+  'Oriya',
+  'Tamil',
+  'Telugu',
+  'Kannada',
+  'Malayalam',
+  'Sinhala',
+].map((script) => new RegExp(`\\p{Script=${script}}`, 'u'));
+
+// Latin letter-likes that TR39 leaves as prototypes or does not list at
+// all. Small capitals are not confusable with lowercase at body size, so
+// TR39 omits them, but "ᴘᴏʀɴ" is a common filter evasion.
+const LATIN_FOLDS = {
+  ᴀ: 'a',
+  ʙ: 'b',
+  ᴄ: 'c',
+  ᴅ: 'd',
+  ᴇ: 'e',
+  ꜰ: 'f',
+  ɢ: 'g',
+  ʜ: 'h',
+  ɪ: 'i',
+  ᴊ: 'j',
+  ᴋ: 'k',
+  ʟ: 'l',
+  ᴍ: 'm',
+  ɴ: 'n',
+  ᴏ: 'o',
+  ᴘ: 'p',
+  ǫ: 'q',
+  ʀ: 'r',
+  ꜱ: 's',
+  ᴛ: 't',
+  ᴜ: 'u',
+  ᴠ: 'v',
+  ᴡ: 'w',
+  ʏ: 'y',
+  ᴢ: 'z',
+  ĸ: 'k',
+  ȷ: 'j',
+};
+
+// Visually close letters with no usable TR39 prototype, common in
+// evasion; these win over TR39
+const EXTRA = {
+  ӏ: 'l', // TR39: "i"
+  м: 'm', // TR39: "ʍ"
+  п: 'n', // TR39: "π"
+  ь: 'b', // TR39: "ƅ"
+  ε: 'e', // TR39: "ꞓ"
+  μ: 'u',
+  ς: 'c',
+  χ: 'x',
+  ω: 'w',
+  Ԛ: 'Q',
+};
+
+// Symbol blocks without a decomposition, folded as ranges
+const RANGES = [
+  {
+    from: '1F150',
+    to: '1F169',
+    base: 'A',
+    name: 'NEGATIVE CIRCLED LATIN CAPITAL LETTER',
+  },
+  {
+    from: '1F170',
+    to: '1F189',
+    base: 'A',
+    name: 'NEGATIVE SQUARED LATIN CAPITAL LETTER',
+  },
+  {
+    from: '1F1E6',
+    to: '1F1FF',
+    base: 'A',
+    name: 'REGIONAL INDICATOR SYMBOL LETTER',
+  },
+];
+
+const hex = (ch) =>
+  ch.codePointAt(0).toString(16).toUpperCase().padStart(4, '0');
+const fromHex = (field) =>
+  field
+    .trim()
+    .split(/\s+/)
+    .map((code) => String.fromCodePoint(parseInt(code, 16)))
+    .join('');
+
+/**
+ * Fold a TR39 prototype down to ASCII, or return undefined
+ */
+function toAscii(prototype) {
+  let out = '';
+  for (const ch of prototype.normalize('NFD')) {
+    if (/\p{M}/u.test(ch)) continue;
+    out += LATIN_FOLDS[ch] ?? ch;
+  }
+  return /^[A-Za-z0-9]+$/.test(out) ? out : undefined;
+}
+
+function build(file) {
+  const source = fs.readFileSync(file, 'utf-8');
+  const version = /^#\s*Version:\s*(\S+)/m.exec(source)?.[1] ?? 'unknown';
+
+  const mappings = new Map();
+  for (const line of source.split(/\r?\n/)) {
+    const [from, to] = line.replace(/#.*/, '').split(';');
+    if (!to) continue;
+
+    const ch = fromHex(from);
+    if ([...ch].length !== 1 || ch.codePointAt(0) < 0x80) continue;
+    if (SKIPPED_SCRIPTS.some((re) => re.test(ch))) continue;
+
+    let skeleton = toAscii(fromHex(to));
+    if (!skeleton) continue;
+    // TR39 gives "I" and "l" one prototype; capitals should read as "I"
+    if (skeleton === 'l' && /\p{Lu}/u.test(ch)) skeleton = 'I';
+    mappings.set(ch, skeleton);
+  }
+  for (const [ch, skeleton] of Object.entries({ ...LATIN_FOLDS, ...EXTRA })) {
+    mappings.set(ch, skeleton);
+  }
+
+  const sorted = [...mappings].sort(
+    ([a], [b]) => a.codePointAt(0) - b.codePointAt(0)
+  );
+  return {
+    description:
+      'Generated by scripts/build-confusables.mjs from Unicode TR39 confusables.txt: the Latin-target subset, plus small capitals and a few visually close letters TR39 does not map. Keys are hex code points. Compatibility forms without an entry are folded by NFKD at runtime.',
+    version,
+    mappings: Object.fromEntries(sorted.map(([ch, to]) => [hex(ch), to])),
+    ranges: RANGES,
+  };
+}
+
+const [file] = process.argv.slice(2);
+if (!file) {
+  console.error('Usage: node scripts/build-confusables.mjs <confusables.txt>');
+  process.exit(1);
+}
+const table = build(file);
+fs.writeFileSync(OUT, JSON.stringify(table, null, 2) + '\n');
+console.log(
+  `Wrote ${Object.keys(table.mappings).length} mappings (TR39 ${table.version}) to ${OUT}`
+);
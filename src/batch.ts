@@ -0,0 +1,103 @@
+import { config } from './config.js';
+import { moderateContent } from './engine.js';
+import {
+  BatchModerationItemSchema,
+  type BatchModerationItem,
+  type ModerationResult,
+} from './schema.js';
+
+export type BatchItemResult =
+  | { id: string; ok: true; result: ModerationResult }
+  | { id: string | null; ok: false; error: string };
+
+export interface BatchOptions {
+  concurrency?: number;
+}
+
+/**
+ * Run an async mapper over items with at most `limit` calls in flight,
+ * returning results in input order. `limit` is rounded down and clamped to
+ * at least 1; NaN counts as 1.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const max = Number.isNaN(limit) ? 1 : Math.floor(limit);
+  const workers = Math.max(1, Math.min(max, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
+
+/**
+ * Moderate many posts with bounded concurrency. Each item is validated and
+ * moderated independently, so invalid items or failures are reported per
+ * item without failing the rest of the batch.
+ */
+export async function moderateBatch(
+  items: BatchModerationItem[] | unknown[],
+  options: BatchOptions = {}
+): Promise<BatchItemResult[]> {
+  const concurrency = options.concurrency ?? config.batch.concurrency;
+
+  return mapWithConcurrency(
+    items as unknown[],
+    concurrency,
+    async (item): Promise<BatchItemResult> => {
+      const parse = BatchModerationItemSchema.safeParse(item);
+      if (!parse.success) {
+        return {
+          id: getItemId(item),
+          ok: false,
+          error: parse.error.issues
+            .map((issue) =>
+              issue.path.length
+                ? `${issue.path.join('.')}: ${issue.message}`
+                : issue.message
+            )
+            .join('; '),
+        };
+      }
+
+      const { id, text, media, platform, context, tenantId, redact } =
+        parse.data;
+      try {
+        const result = await moderateContent(text, media, {
+          platform,
+          context,
+          tenantId,
+          redact,
+        });
+        return { id, ok: true, result };
+      } catch (error) {
+        return {
+          id,
+          ok: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    }
+  );
+}
+
+/**
+ * Best-effort id extraction for items that failed validation
+ */
+function getItemId(item: unknown): string | null {
+  if (item && typeof item === 'object' && 'id' in item) {
+    const id = (item as { id: unknown }).id;
+    if (typeof id === 'string') return id;
+  }
+  return null;
+}
@@ -1,5 +1,15 @@
 #!/usr/bin/env node
+import readline from 'node:readline';
 import { moderateContent } from './engine.js';
+import {
+  ModerationRequestSchema,
+  RedactionStyleSchema,
+  type RedactionStyle,
+} from './schema.js';
+import { config } from './config.js';
+import { explainCounterfactual } from './counterfactual.js';
+
+type Platform = 'generic' | 'x' | 'instagram' | 'tiktok';
 
 function readStdin(): Promise<string> {
   return new Promise((resolve) => {
@@ -11,9 +21,123 @@ function readStdin(): Promise<string> {
   });
 }
 
+/**
+ * Moderate one ModerationRequest JSON object per stdin line, writing one
+ * result per stdout line as each finishes and a label summary to stderr
+ */
+async function runNdjson(
+  defaultPlatform: Platform,
+  defaultTenant?: string,
+  defaultRedact?: RedactionStyle
+): Promise<number> {
+  const counts = { allow: 0, review: 0, block: 0, error: 0 };
+  const inFlight = new Set<Promise<void>>();
+  const rl = readline.createInterface({
+    input: process.stdin,
+    crlfDelay: Infinity,
+  });
+
+  const write = (line: number, id: unknown, payload: object) => {
+    const record =
+      typeof id === 'string' ? { line, id, ...payload } : { line, ...payload };
+    process.stdout.write(JSON.stringify(record) + '\n');
+  };
+
+  const processLine = async (raw: string, line: number) => {
+    let input: unknown;
+    try {
+      input = JSON.parse(raw);
+    } catch {
+      counts.error++;
+      write(line, undefined, { ok: false, error: 'Invalid JSON' });
+      return;
+    }
+
+    const id =
+      input && typeof input === 'object'
+        ? (input as { id?: unknown }).id
+        : undefined;
+    const parse = ModerationRequestSchema.safeParse(
+      input && typeof input === 'object'
+        ? { platform: defaultPlatform, ...input }
+        : input
+    );
+    if (!parse.success) {
+      counts.error++;
+      write(line, id, {
+        ok: false,
+        error: parse.error.issues.map((issue) => issue.message).join('; '),
+      });
+      return;
+    }
+
+    const { text, media, platform, context, tenantId, redact } = parse.data;
+    try {
+      const result = await moderateContent(text, media, {
+        platform,
+        context,
+        tenantId: tenantId ?? defaultTenant,
+        redact: redact ?? defaultRedact,
+      });
+      counts[result.label]++;
+      write(line, id, { ok: true, result });
+    } catch (error) {
+      counts.error++;
+      write(line, id, {
+        ok: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  };
+
+  let lineNumber = 0;
+  for await (const raw of rl) {
+    lineNumber++;
+    if (!raw.trim()) continue;
+
+    const task = processLine(raw, lineNumber).finally(() =>
+      inFlight.delete(task)
+    );
+    inFlight.add(task);
+    if (inFlight.size >= config.batch.concurrency) {
+      await Promise.race(inFlight);
+    }
+  }
+  await Promise.all(inFlight);
+
+  console.error(
+    `Summary: allow=${counts.allow} review=${counts.review} block=${counts.block} errors=${counts.error}`
+  );
+  return counts.block > 0 || counts.error > 0 ? 1 : 0;
+}
+
 async function main() {
   const args = process.argv.slice(2);
 
+  const platformIndex = args.indexOf('--platform');
+  const platform =
+    platformIndex !== -1 && args[platformIndex + 1]
+      ? (args[platformIndex + 1] as Platform)
+      : 'generic';
+
+  const tenantIndex = args.indexOf('--tenant');
+  const tenantId =
+    tenantIndex !== -1 && args[tenantIndex + 1]
+      ? args[tenantIndex + 1]
+      : undefined;
+
+  // --redact takes an optional style (mask | last4 | token)
+  const redactIndex = args.indexOf('--redact');
+  let redact: RedactionStyle | undefined;
+  if (redactIndex !== -1) {
+    const style = RedactionStyleSchema.safeParse(args[redactIndex + 1]);
+    redact = style.success ? style.data : 'mask';
+  }
+
+  if (args.includes('--ndjson')) {
+    process.exit(await runNdjson(platform, tenantId, redact));
+  }
+
   // Parse arguments
   const textArgIndex = args.indexOf('--text');
   let text = '';
@@ -23,12 +147,6 @@ async function main() {
     text = (await readStdin()).trim();
   }
 
-  const platformIndex = args.indexOf('--platform');
-  const platform =
-    platformIndex !== -1 && args[platformIndex + 1]
-      ? (args[platformIndex + 1] as 'generic' | 'x' | 'instagram' | 'tiktok')
-      : 'generic';
-
   const mediaUrlIndex = args.indexOf('--media-url');
   const mediaTypeIndex = args.indexOf('--media-type');
   let media = undefined;
@@ -49,7 +167,10 @@ async function main() {
 
   if (!text && !media) {
     console.error(
-      'Usage: flag-post [--text "your text"] [--media-url "url" --media-type image|video] [--platform generic|x|instagram|tiktok] [--debug]'
+      'Usage: flag-post [--text "your text"] [--media-url "url" --media-type image|video] [--platform generic|x|instagram|tiktok] [--tenant id] [--redact [mask|last4|token]] [--debug]'
+    );
+    console.error(
+      '       flag-post --ndjson [--platform generic|x|instagram|tiktok] [--tenant id] [--redact [mask|last4|token]] < posts.ndjson > results.ndjson'
     );
     console.error('At least one of --text or --media-url must be provided');
     process.exit(2);
@@ -58,6 +179,8 @@ async function main() {
   try {
     const result = await moderateContent(text || undefined, media, {
       platform,
+      tenantId,
+      redact,
     });
 
     if (debug) {
@@ -76,6 +199,42 @@ async function main() {
         }
       }
 
+      if (result.explanation) {
+        const counterfactual = explainCounterfactual(result);
+        console.log('\nThresholds:');
+        for (const { threshold, value, distance } of counterfactual.distances) {
+          const side = distance >= 0 ? 'above' : 'below';
+          console.log(
+            `  ${threshold} (${value}): ${Math.abs(distance).toFixed(1)} ${side}`
+          );
+        }
+        if (counterfactual.overriddenBy) {
+          const { ruleId, label } = counterfactual.overriddenBy;
+          console.log(
+            `\nLabel ${label} set by decision rule ${ruleId}; the score alone gives ${counterfactual.label}`
+          );
+        }
+        if (counterfactual.targetLabel) {
+          const { remove, scoreAfter, targetLabel } = counterfactual;
+          console.log(`\nTo bring the score to ${targetLabel}:`);
+          if (remove && scoreAfter !== null) {
+            for (const flag of remove.flags) {
+              console.log(
+                `  remove ${flag.ruleId ?? flag.category}: ${flag.message} (-${flag.contribution.toFixed(1)})`
+              );
+            }
+            for (const multiplier of remove.multipliers) {
+              console.log(
+                `  remove ${multiplier.name} context (x${multiplier.value})`
+              );
+            }
+            console.log(`  score would be ${scoreAfter.toFixed(1)}`);
+          } else {
+            console.log('  not reachable by removing flags or context');
+          }
+        }
+      }
+
       console.log('\n---');
     }
 
@@ -7,6 +7,9 @@ const ConfigSchema = z.object({
   enableSupabase: z.boolean().default(false),
   debug: z.boolean().default(false),
 
+  // Bearer token for admin endpoints (lists and rules); disabled without one
+  adminToken: z.string().optional(),
+
   // Provider configurations
   openai: z.object({
     apiKey: z.string().optional(),
@@ -22,6 +25,16 @@ const ConfigSchema = z.object({
     apiKey: z.string().optional(),
   }),
 
+  // NLP provider chain, tried in order, or combined by an ensemble rule
+  nlp: z.object({
+    providers: z.array(z.string()).default(['anthropic']),
+    ensemble: z
+      .enum(['first', 'max', 'mean', 'weighted', 'vote'])
+      .default('first'),
+    minAgree: z.number().default(2),
+    trust: z.record(z.number()).default({}),
+  }),
+
   // AWS configuration
   aws: z.object({
     region: z.string().default('us-east-1'),
@@ -50,6 +63,87 @@ const ConfigSchema = z.object({
     metadata: z.number().default(0.3),
   }),
 
+  // Wordlist matching
+  wordlist: z.object({
+    matchMode: z.enum(['token', 'substring']).default('token'),
+  }),
+
+  // Language identification for routing to locale wordlists
+  language: z.object({
+    detect: z.boolean().default(true),
+    minConfidence: z.number().default(0.5),
+  }),
+
+  // PII detection
+  pii: z.object({
+    defaultRegion: z.string().default('US'), // for phone numbers without +CC
+  }),
+
+  // Link analysis
+  links: z.object({
+    reputationFile: z.string().optional(), // replaces the bundled list
+    followRedirects: z.boolean().default(false),
+    maxHops: z.number().default(5),
+    timeoutMs: z.number().default(3000),
+  }),
+
+  // Phishing and brand-impersonation detection
+  phishing: z.object({
+    brandsFile: z.string().optional(), // replaces the bundled brand list
+  }),
+
+  // Rule detector registry
+  detectors: z.object({
+    order: z.array(z.string()).default([]), // these run first, in this order
+    disabled: z.array(z.string()).default([]),
+  }),
+
+  // Score combination: additive weights or calibrated probabilities
+  scoring: z.object({
+    strategy: z.enum(['additive', 'probabilistic']).default('additive'),
+    model: z.enum(['noisy-or', 'log-odds']).default('noisy-or'),
+    prior: z.number().default(0.01), // base rate for the log-odds model
+    calibrationFile: z.string().optional(), // replaces the bundled curves
+  }),
+
+  // Merging of overlapping flags before scoring
+  consolidation: z.object({
+    strategy: z.enum(['max', 'diminishing']).default('diminishing'),
+    decay: z.number().default(0.5),
+  }),
+
+  // Declarative spam rules
+  spam: z.object({
+    rulesFile: z.string().optional(), // replaces the bundled rules
+    watch: z.boolean().default(true),
+  }),
+
+  // Decision rules evaluated after scoring and policy
+  decisions: z.object({
+    rulesFile: z.string().optional(), // no rules without one
+    watch: z.boolean().default(true),
+  }),
+
+  // Hashtag, mention and emoji abuse; thresholds flag at that count or more
+  social: z.object({
+    hashtagThreshold: z.number().default(30),
+    mentionThreshold: z.number().default(10),
+    emojiThreshold: z.number().default(30),
+    emojiCodesFile: z.string().optional(), // replaces the bundled emoji codes
+  }),
+
+  // Tenant-scoped custom term lists
+  tenants: z.object({
+    dir: z.string().optional(),
+    watch: z.boolean().default(true),
+  }),
+
+  // Batch moderation
+  batch: z.object({
+    concurrency: z.number().default(8),
+    maxItems: z.number().default(1000),
+  }),
+
   // Temporal thresholds
   temporal: z.object({
     burstHour: z.number().default(10),
@@ -65,6 +159,20 @@ const ConfigSchema = z.object({
 
 export type Config = z.infer<typeof ConfigSchema>;
 
+/**
+ * Parse "provider:weight" pairs, e.g. "openai:1,perspective:0.6"
+ */
+function parseTrust(value?: string): Record<string, number> {
+  const trust: Record<string, number> = {};
+  for (const pair of (value || '').split(',')) {
+    const [name, weight] = pair.split(':').map((part) => part.trim());
+    if (name && weight && !Number.isNaN(parseFloat(weight))) {
+      trust[name] = parseFloat(weight);
+    }
+  }
+  return trust;
+}
+
 function getConfig(): Config {
   const config = ConfigSchema.parse({
     enableLLM: process.env.ENABLE_LLM === 'true',
@@ -73,6 +181,7 @@ function getConfig(): Config {
       process.env.SUPABASE_URL && process.env.SUPABASE_ANON_KEY
     ),
     debug: process.env.DEBUG === 'true',
+    adminToken: process.env.ADMIN_TOKEN || undefined,
 
     openai: {
       apiKey: process.env.OPENAI_API_KEY,
@@ -88,6 +197,16 @@ function getConfig(): Config {
       apiKey: process.env.PERSPECTIVE_API_KEY,
     },
 
+    nlp: {
+      providers: (process.env.NLP_PROVIDERS || 'anthropic')
+        .split(',')
+        .map((name) => name.trim())
+        .filter(Boolean),
+      ensemble: process.env.NLP_ENSEMBLE || 'first',
+      minAgree: parseInt(process.env.NLP_MIN_AGREE || '2'),
+      trust: parseTrust(process.env.NLP_TRUST),
+    },
+
     aws: {
       region: process.env.AWS_REGION || 'us-east-1',
       accessKeyId: process.env.AWS_ACCESS_KEY_ID,
@@ -112,6 +231,80 @@ function getConfig(): Config {
       metadata: parseFloat(process.env.WEIGHT_METADATA || '0.3'),
     },
 
+    wordlist: {
+      matchMode: process.env.WORDLIST_MATCH_MODE || 'token',
+    },
+
+    language: {
+      detect: process.env.LANGUAGE_DETECT !== 'false',
+      minConfidence: parseFloat(process.env.LANGUAGE_MIN_CONFIDENCE || '0.5'),
+    },
+
+    pii: {
+      defaultRegion: process.env.PII_DEFAULT_REGION || 'US',
+    },
+
+    links: {
+      reputationFile: process.env.LINK_REPUTATION_FILE,
+      followRedirects: process.env.LINK_FOLLOW_REDIRECTS === 'true',
+      maxHops: parseInt(process.env.LINK_MAX_HOPS || '5'),
+      timeoutMs: parseInt(process.env.LINK_TIMEOUT_MS || '3000'),
+    },
+
+    phishing: {
+      brandsFile: process.env.PHISHING_BRANDS_FILE,
+    },
+
+    detectors: {
+      order: (process.env.DETECTORS_ORDER || '')
+        .split(',')
+        .map((id) => id.trim())
+        .filter(Boolean),
+      disabled: (process.env.DETECTORS_DISABLED || '')
+        .split(',')
+        .map((id) => id.trim())
+        .filter(Boolean),
+    },
+
+    scoring: {
+      strategy: process.env.SCORING_STRATEGY || 'additive',
+      model: process.env.SCORING_MODEL || 'noisy-or',
+      prior: parseFloat(process.env.SCORING_PRIOR || '0.01'),
+      calibrationFile: process.env.SCORING_CALIBRATION_FILE,
+    },
+
+    consolidation: {
+      strategy: process.env.CONSOLIDATION_STRATEGY || 'diminishing',
+      decay: parseFloat(process.env.CONSOLIDATION_DECAY || '0.5'),
+    },
+
+    spam: {
+      rulesFile: process.env.SPAM_RULES_FILE,
+      watch: process.env.SPAM_RULES_WATCH !== 'false',
+    },
+
+    decisions: {
+      rulesFile: process.env.DECISION_RULES_FILE,
+      watch: process.env.DECISION_RULES_WATCH !== 'false',
+    },
+
+    social: {
+      hashtagThreshold: parseInt(process.env.SOCIAL_HASHTAG_THRESHOLD || '30'),
+      mentionThreshold: parseInt(process.env.SOCIAL_MENTION_THRESHOLD || '10'),
+      emojiThreshold: parseInt(process.env.SOCIAL_EMOJI_THRESHOLD || '30'),
+      emojiCodesFile: process.env.SOCIAL_EMOJI_CODES_FILE,
+    },
+
+    tenants: {
+      dir: process.env.TENANT_LISTS_DIR,
+      watch: process.env.TENANT_LISTS_WATCH !== 'false',
+    },
+
+    batch: {
+      concurrency: parseInt(process.env.BATCH_CONCURRENCY || '8'),
+      maxItems: parseInt(process.env.BATCH_MAX_ITEMS || '1000'),
+    },
+
     temporal: {
       burstHour: parseInt(process.env.TEMPORAL_BURST_HOUR || '10'),
       burstDay: parseInt(process.env.TEMPORAL_BURST_DAY || '50'),
@@ -0,0 +1,124 @@
+import { config } from './config.js';
+import type { Flag } from './schema.js';
+
+export type WeightCombination = 'max' | 'diminishing';
+
+export interface ConsolidationOptions {
+  strategy: WeightCombination;
+  decay: number; // share of each further weight under "diminishing"
+}
+
+const SEVERITY_RANK = { low: 0, medium: 1, high: 2, critical: 3 } as const;
+
+/**
+ * Combine the weights of flags merged into one. "max" keeps the strongest;
+ * "diminishing" adds the weights strongest first, each scaled by a further
+ * power of `decay` (w1 + w2·d + w3·d² + ...).
+ */
+export function combineWeights(
+  weights: number[],
+  { strategy, decay }: ConsolidationOptions
+): number {
+  const sorted = [...weights].sort((a, b) => b - a);
+  if (strategy === 'max') return sorted[0] ?? 0;
+  return sorted.reduce((sum, weight, i) => sum + weight * decay ** i, 0);
+}
+
+function mergeCluster(
+  text: string,
+  cluster: Flag[],
+  options: ConsolidationOptions
+): Flag {
+  if (cluster.length === 1) return cluster[0];
+
+  const strongest = cluster.reduce((a, b) => (b.weight > a.weight ? b : a));
+  const start = Math.min(...cluster.map((f) => f.indices![0]));
+  const end = Math.max(...cluster.map((f) => f.indices![1]));
+  const severity = cluster
+    .map((f) => f.severity)
+    .reduce<
+      Flag['severity']
+    >((a, b) => (!a || (b && SEVERITY_RANK[b] > SEVERITY_RANK[a]) ? b : a), undefined);
+  const ruleIds = [
+    ...new Set(
+      cluster.flatMap((f) => f.ruleIds ?? (f.ruleId ? [f.ruleId] : []))
+    ),
+  ];
+
+  return {
+    ...strongest,
+    weight: combineWeights(
+      cluster.map((f) => f.weight),
+      options
+    ),
+    severity,
+    indices: [start, end],
+    snippet: text.slice(start, end),
+    ruleIds,
+  };
+}
+
+/**
+ * Merge flags of the same source and category whose spans are identical or
+ * overlap, so one offending span adds its weight once. Every flag in a merge
+ * overlaps every other, so a wide span (a whole-text ratio, a stuffing run)
+ * cannot chain separate findings together. Aggregate flags (ratios, counts,
+ * stuffing runs) sum up many matches rather than one span, so they are
+ * never merged and keep their own weight. Flags without a span
+ * (ML, vision, metadata) pass through. Merged flags keep the strongest
+ * flag's message and rule id, cover the union of the spans and list every
+ * contributing rule in `ruleIds`.
+ */
+export function consolidateFlags(
+  text: string,
+  flags: Flag[],
+  options: ConsolidationOptions = config.consolidation
+): Flag[] {
+  // Group spanned flags, remembering where each first appeared
+  const groups = new Map<string, { flag: Flag; position: number }[]>();
+  const output: { flag: Flag; position: number }[] = [];
+  flags.forEach((flag, position) => {
+    if (!flag.indices || flag.aggregate) {
+      output.push({ flag, position });
+      return;
+    }
+    const key = `${flag.source}:${flag.category}`;
+    const group = groups.get(key) ?? [];
+    group.push({ flag, position });
+    groups.set(key, group);
+  });
+
+  // Sweep each group in span order. A span joins the cluster only if it
+  // starts before the earliest end, i.e. inside the range all members share.
+  for (const group of groups.values()) {
+    group.sort((a, b) => a.flag.indices![0] - b.flag.indices![0]);
+    let cluster: typeof group = [];
+    let sharedEnd = -1;
+    const flush = () => {
+      if (cluster.length === 0) return;
+      output.push({
+        flag: mergeCluster(
+          text,
+          cluster.map((c) => c.flag),
+          options
+        ),
+        position: Math.min(...cluster.map((c) => c.position)),
+      });
+    };
+
+    for (const item of group) {
+      const [start, end] = item.flag.indices!;
+      if (cluster.length > 0 && start < sharedEnd) {
+        cluster.push(item);
+        sharedEnd = Math.min(sharedEnd, end);
+      } else {
+        flush();
+        cluster = [item];
+        sharedEnd = end;
+      }
+    }
+    flush();
+  }
+
+  return output.sort((a, b) => a.position - b.position).map(({ flag }) => flag);
+}
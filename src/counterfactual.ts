@@ -0,0 +1,157 @@
+import type { ModerationResult, ScoreExplanation } from './schema.js';
+import { rescoreExplanation } from './scoring.js';
+
+type Label = ModerationResult['label'];
+
+export interface ThresholdDistance {
+  threshold: 'review' | 'block';
+  value: number;
+  distance: number; // finalScore - value; negative means below
+}
+
+export interface Counterfactual {
+  label: Label; // the label the score reached, before decision rules
+  targetLabel: Label | null; // one tier down; null for allow
+  // The decision rule that set the result's label, when it differs from
+  // the score's; removing flags may not change the final label then
+  overriddenBy: { ruleId: string; label: Label } | null;
+  // Smallest set of flags and context multipliers whose removal reaches
+  // targetLabel; null when no removal does
+  remove: {
+    flags: {
+      index: number; // position in result.flags
+      ruleId?: string;
+      category: string;
+      message: string;
+      contribution: number;
+    }[];
+    multipliers: { name: string; value: number }[];
+  } | null;
+  scoreAfter: number | null; // finalScore once `remove` is applied
+  distances: ThresholdDistance[];
+}
+
+const LOWER_TIER: Record<Label, Label | null> = {
+  block: 'review',
+  review: 'allow',
+  allow: null,
+};
+
+/**
+ * All subsets of a small list, smallest first
+ */
+function subsets<T>(items: T[]): T[][] {
+  const all: T[][] = [[]];
+  for (const item of items) {
+    const count = all.length;
+    for (let i = 0; i < count; i++) all.push([...all[i], item]);
+  }
+  return all.sort((a, b) => a.length - b.length);
+}
+
+/**
+ * Work out what would have moved a result down one label tier, from the
+ * arithmetic in `result.explanation`, for either scoring strategy. The tier
+ * is the one the score crossed; a label set by a decision rule is reported
+ * in `overriddenBy` instead of being taken for a score result. Context
+ * multipliers (at most one per feature) are tried in every combination; for
+ * each, flags are removed strongest first, which needs the fewest flags. The smallest
+ * combined set wins, preferring fewer context signals and then the
+ * smallest score change.
+ */
+export function explainCounterfactual(
+  result: Pick<
+    ModerationResult,
+    'label' | 'flags' | 'explanation' | 'overrides'
+  >
+): Counterfactual {
+  const { explanation } = result;
+  if (!explanation) {
+    throw new Error('Result has no score explanation');
+  }
+
+  const { thresholds, finalScore } = explanation;
+  const distances: ThresholdDistance[] = (['review', 'block'] as const).map(
+    (threshold) => ({
+      threshold,
+      value: thresholds[threshold],
+      distance: finalScore - thresholds[threshold],
+    })
+  );
+  const { crossed } = explanation.threshold;
+  const label: Label = crossed === 'none' ? 'allow' : crossed;
+  const override = result.overrides?.filter((o) => o.label).at(-1);
+  const overriddenBy =
+    override && result.label !== label
+      ? { ruleId: override.ruleId, label: result.label }
+      : null;
+
+  const targetLabel = LOWER_TIER[label];
+  const base = { label, targetLabel, overriddenBy, distances };
+  if (!targetLabel) return { ...base, remove: null, scoreAfter: null };
+
+  // The target label holds once the score is below the tier's threshold
+  const limit = label === 'block' ? thresholds.block : thresholds.review;
+  // Strongest evidence first: probability when calibrated, else weight
+  const strength = (f: ScoreExplanation['flags'][number]) =>
+    f.probability ?? f.contribution;
+  const byStrength = [...explanation.flags].sort(
+    (a, b) => strength(b) - strength(a)
+  );
+
+  let best: {
+    flags: ScoreExplanation['flags'];
+    multipliers: ScoreExplanation['multipliers'];
+    score: number;
+  } | null = null;
+
+  // Only multipliers above 1 raise the score, so only those are worth removing
+  const raising = explanation.multipliers.filter((m) => m.value > 1);
+  for (const removed of subsets(raising)) {
+    const kept = explanation.multipliers.filter((m) => !removed.includes(m));
+    const scoreWithout = (count: number) =>
+      rescoreExplanation(explanation, byStrength.slice(count), kept);
+
+    let count = 0;
+    while (scoreWithout(count) >= limit && count < byStrength.length) {
+      count++;
+    }
+    const score = scoreWithout(count);
+    if (score >= limit) continue;
+
+    const size = count + removed.length;
+    const bestSize = best ? best.flags.length + best.multipliers.length : 0;
+    if (
+      !best ||
+      size < bestSize ||
+      (size === bestSize &&
+        (removed.length < best.multipliers.length ||
+          (removed.length === best.multipliers.length && score > best.score)))
+    ) {
+      best = {
+        flags: byStrength.slice(0, count),
+        multipliers: removed,
+        score,
+      };
+    }
+  }
+
+  if (!best) return { ...base, remove: null, scoreAfter: null };
+  return {
+    ...base,
+    remove: {
+      flags: best.flags.map((f) => ({
+        index: f.index,
+        ruleId: f.ruleId,
+        category: f.category,
+        message: result.flags[f.index]?.message ?? f.category,
+        contribution: f.contribution,
+      })),
+      multipliers: best.multipliers.map(({ name, value }) => ({
+        name,
+        value,
+      })),
+    },
+    scoreAfter: best.score,
+  };
+}
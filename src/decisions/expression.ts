@@ -0,0 +1,378 @@
+/**
+ * A small, side-effect-free expression language for decision rules.
+ *
+ *   maxConfidence('selfharm', 'ml') > 0.8 and account.isNewAccount
+ *   label == 'block' and account.isVerified
+ *   categories.spam.score >= 40 or 'shadow_hold' in actions
+ *
+ * Literals: numbers, 'strings' or "strings", true, false, null, [lists].
+ * Operators, loosest first: or / ||, and / &&, not / !, comparisons
+ * (== != < <= > >= in), + -, * /, unary minus. Identifiers read dotted
+ * paths from the evaluation scope and calls go to a fixed set of
+ * functions, so rules cannot reach anything the engine does not hand them.
+ * Missing paths evaluate to null. Ordering comparisons (< <= > >=)
+ * involving null are false, but == and != compare null like any value, so
+ * `account.isVerified != true` holds when the path is missing; write
+ * `account.isVerified == false` to require the field.
+ */
+
+export type Value = null | boolean | number | string | Value[] | Scope;
+
+export interface Scope {
+  [key: string]: Value | undefined;
+}
+
+export type RuleFunction = (...args: Value[]) => Value;
+
+type Node =
+  | { type: 'literal'; value: Value }
+  | { type: 'list'; items: Node[] }
+  | { type: 'path'; path: string[] }
+  | { type: 'call'; name: string; args: Node[] }
+  | { type: 'not'; operand: Node }
+  | { type: 'negate'; operand: Node }
+  | { type: 'binary'; op: string; left: Node; right: Node };
+
+interface Token {
+  kind: 'number' | 'string' | 'word' | 'op';
+  text: string;
+  value?: number | string;
+  at: number;
+}
+
+export interface CompiledExpression {
+  source: string;
+  evaluate(scope: Scope, functions: Record<string, RuleFunction>): Value;
+}
+
+const MAX_LENGTH = 2000;
+
+// Multi-character operators must come before their prefixes
+const OPERATORS = [
+  '&&',
+  '||',
+  '==',
+  '!=',
+  '<=',
+  '>=',
+  '<',
+  '>',
+  '!',
+  '+',
+  '-',
+  '*',
+  '/',
+  '(',
+  ')',
+  '[',
+  ']',
+  ',',
+  '.',
+];
+
+// A Map, so words like "constructor" never resolve to inherited members
+const KEYWORD_OPERATORS = new Map([
+  ['and', '&&'],
+  ['or', '||'],
+  ['not', '!'],
+  ['in', 'in'],
+]);
+
+// Never readable through a path, whatever the scope contains
+const FORBIDDEN_KEYS = new Set(['__proto__', 'prototype', 'constructor']);
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    const number = /^\d+(\.\d+)?/.exec(source.slice(i));
+    if (number) {
+      tokens.push({
+        kind: 'number',
+        text: number[0],
+        value: parseFloat(number[0]),
+        at: i,
+      });
+      i += number[0].length;
+      continue;
+    }
+
+    if (ch === "'" || ch === '"') {
+      const end = source.indexOf(ch, i + 1);
+      if (end < 0) throw new Error(`Unterminated string at ${i}`);
+      tokens.push({
+        kind: 'string',
+        text: source.slice(i, end + 1),
+        value: source.slice(i + 1, end),
+        at: i,
+      });
+      i = end + 1;
+      continue;
+    }
+
+    const word = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i));
+    if (word) {
+      const op = KEYWORD_OPERATORS.get(word[0]);
+      tokens.push(
+        op
+          ? { kind: 'op', text: op, at: i }
+          : { kind: 'word', text: word[0], at: i }
+      );
+      i += word[0].length;
+      continue;
+    }
+
+    const op = OPERATORS.find((candidate) => source.startsWith(candidate, i));
+    if (!op) throw new Error(`Unexpected "${ch}" at ${i}`);
+    tokens.push({ kind: 'op', text: op, at: i });
+    i += op.length;
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser over the token list
+ */
+function parse(tokens: Token[], functionNames: Set<string>): Node {
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const isOp = (...ops: string[]) =>
+    peek()?.kind === 'op' && ops.includes(peek().text);
+  const expect = (op: string) => {
+    if (!isOp(op)) {
+      const found = peek() ? `"${peek().text}" at ${peek().at}` : 'end';
+      throw new Error(`Expected "${op}" but found ${found}`);
+    }
+    pos++;
+  };
+
+  const binary = (ops: string[], next: () => Node) => (): Node => {
+    let left = next();
+    while (isOp(...ops)) {
+      const op = tokens[pos++].text;
+      left = { type: 'binary', op, left, right: next() };
+    }
+    return left;
+  };
+
+  const primary = (): Node => {
+    const token = tokens[pos++];
+    if (!token) throw new Error('Unexpected end of expression');
+
+    if (token.kind === 'number' || token.kind === 'string') {
+      return { type: 'literal', value: token.value! };
+    }
+    if (token.kind === 'op' && token.text === '(') {
+      const inner = or();
+      expect(')');
+      return inner;
+    }
+    if (token.kind === 'op' && token.text === '[') {
+      const items: Node[] = [];
+      while (!isOp(']')) {
+        items.push(or());
+        if (!isOp(']')) expect(',');
+      }
+      expect(']');
+      return { type: 'list', items };
+    }
+    if (token.kind !== 'word') {
+      throw new Error(`Unexpected "${token.text}" at ${token.at}`);
+    }
+
+    if (token.text === 'true') return { type: 'literal', value: true };
+    if (token.text === 'false') return { type: 'literal', value: false };
+    if (token.text === 'null') return { type: 'literal', value: null };
+
+    if (isOp('(')) {
+      if (!functionNames.has(token.text)) {
+        throw new Error(`Unknown function "${token.text}" at ${token.at}`);
+      }
+      pos++;
+      const args: Node[] = [];
+      while (!isOp(')')) {
+        args.push(or());
+        if (!isOp(')')) expect(',');
+      }
+      expect(')');
+      return { type: 'call', name: token.text, args };
+    }
+
+    const path = [token.text];
+    while (isOp('.')) {
+      pos++;
+      const key = tokens[pos++];
+      if (key?.kind !== 'word') {
+        throw new Error(`Expected a property name after "." at ${token.at}`);
+      }
+      path.push(key.text);
+    }
+    if (path.some((key) => FORBIDDEN_KEYS.has(key))) {
+      throw new Error(`Forbidden property in "${path.join('.')}"`);
+    }
+    return { type: 'path', path };
+  };
+
+  const unary = (): Node => {
+    if (isOp('-')) {
+      pos++;
+      return { type: 'negate', operand: unary() };
+    }
+    return primary();
+  };
+  const multiplicative = binary(['*', '/'], unary);
+  const additive = binary(['+', '-'], multiplicative);
+  const comparison = (): Node => {
+    const left = additive();
+    if (isOp('==', '!=', '<', '<=', '>', '>=', 'in')) {
+      const op = tokens[pos++].text;
+      return { type: 'binary', op, left, right: additive() };
+    }
+    return left;
+  };
+  const not = (): Node => {
+    if (isOp('!')) {
+      pos++;
+      return { type: 'not', operand: not() };
+    }
+    return comparison();
+  };
+  const and = binary(['&&'], not);
+  const or = binary(['||'], and);
+
+  const root = or();
+  if (pos < tokens.length) {
+    throw new Error(`Unexpected "${tokens[pos].text}" at ${tokens[pos].at}`);
+  }
+  return root;
+}
+
+export function truthy(value: Value): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return Boolean(value);
+}
+
+function readPath(scope: Scope, path: string[]): Value {
+  let current: Value | undefined = scope;
+  for (const key of path) {
+    if (
+      current === null ||
+      typeof current !== 'object' ||
+      Array.isArray(current) ||
+      !Object.prototype.hasOwnProperty.call(current, key)
+    ) {
+      return null;
+    }
+    current = current[key];
+  }
+  return current ?? null;
+}
+
+function equals(a: Value, b: Value): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => equals(item, b[i]));
+  }
+  return a === b;
+}
+
+function evaluateNode(
+  node: Node,
+  scope: Scope,
+  functions: Record<string, RuleFunction>
+): Value {
+  const evaluate = (child: Node) => evaluateNode(child, scope, functions);
+
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'list':
+      return node.items.map(evaluate);
+    case 'path':
+      return readPath(scope, node.path);
+    case 'call':
+      return functions[node.name](...node.args.map(evaluate)) ?? null;
+    case 'not':
+      return !truthy(evaluate(node.operand));
+    case 'negate': {
+      const value = evaluate(node.operand);
+      return typeof value === 'number' ? -value : null;
+    }
+    case 'binary': {
+      // Short-circuit the logical operators
+      if (node.op === '&&') {
+        return truthy(evaluate(node.left)) && truthy(evaluate(node.right));
+      }
+      if (node.op === '||') {
+        return truthy(evaluate(node.left)) || truthy(evaluate(node.right));
+      }
+
+      const left = evaluate(node.left);
+      const right = evaluate(node.right);
+      switch (node.op) {
+        case '==':
+          return equals(left, right);
+        case '!=':
+          return !equals(left, right);
+        case 'in':
+          return Array.isArray(right) && right.some((v) => equals(v, left));
+      }
+
+      const bothNumbers = typeof left === 'number' && typeof right === 'number';
+      const bothStrings = typeof left === 'string' && typeof right === 'string';
+      if (!bothNumbers && !bothStrings) {
+        return ['<', '<=', '>', '>='].includes(node.op) ? false : null;
+      }
+      switch (node.op) {
+        case '<':
+          return left < right;
+        case '<=':
+          return left <= right;
+        case '>':
+          return left > right;
+        case '>=':
+          return left >= right;
+        case '+':
+          return bothNumbers
+            ? (left as number) + (right as number)
+            : `${left}${right}`;
+      }
+      if (!bothNumbers) return null;
+      switch (node.op) {
+        case '-':
+          return left - right;
+        case '*':
+          return left * right;
+        case '/':
+          return right === 0 ? null : left / right;
+      }
+      return null;
+    }
+  }
+}
+
+/**
+ * Parse an expression once, checking syntax and function names up front.
+ * Evaluation never throws for type mismatches; they yield null or false.
+ */
+export function compileExpression(
+  source: string,
+  functionNames: Iterable<string>
+): CompiledExpression {
+  if (source.length > MAX_LENGTH) {
+    throw new Error(`Expression is longer than ${MAX_LENGTH} characters`);
+  }
+  const root = parse(tokenize(source), new Set(functionNames));
+  return {
+    source,
+    evaluate: (scope, functions) => evaluateNode(root, scope, functions),
+  };
+}
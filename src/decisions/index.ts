@@ -0,0 +1,265 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { clearTimeout, setTimeout } from 'node:timers';
+import { z } from 'zod';
+import { config } from '../config.js';
+import {
+  PolicyActionSchema,
+  type Context,
+  type Flag,
+  type ModerationResult,
+  type PolicyAction,
+} from '../schema.js';
+import type { ContextFeatures } from '../scoring.js';
+import {
+  compileExpression,
+  truthy,
+  type CompiledExpression,
+  type RuleFunction,
+  type Scope,
+  type Value,
+} from './expression.js';
+
+export const DecisionRuleSchema = z.object({
+  id: z.string(),
+  description: z.string().optional(),
+  when: z.string(), // expression, see ./expression.ts
+  then: z
+    .object({
+      label: z.enum(['allow', 'review', 'block']).optional(),
+      actions: z.array(PolicyActionSchema).min(1).optional(), // replaces
+      addActions: z.array(PolicyActionSchema).min(1).optional(), // merges
+    })
+    .refine(
+      (then) => then.label || then.actions || then.addActions,
+      'A rule must set a label or actions'
+    ),
+  enabled: z.boolean().default(true),
+});
+
+const DecisionRulesFileSchema = z.object({
+  version: z.literal(1),
+  rules: z.array(DecisionRuleSchema),
+});
+
+export type DecisionRule = z.input<typeof DecisionRuleSchema>;
+
+export type DecisionOverride = NonNullable<
+  ModerationResult['overrides']
+>[number];
+
+interface CompiledDecisionRule {
+  rule: z.infer<typeof DecisionRuleSchema>;
+  when: CompiledExpression;
+}
+
+type DecisionInput = Pick<
+  ModerationResult,
+  'score' | 'label' | 'platform' | 'language' | 'flags' | 'categories'
+> & {
+  actions: PolicyAction[];
+  explanation?: ModerationResult['explanation'];
+};
+
+const SEVERITY = PolicyActionSchema.options;
+
+/**
+ * Flags of a category, optionally from one source only
+ */
+function flagsOf(flags: Flag[], category: Value, source: Value): Flag[] {
+  return flags.filter(
+    (flag) =>
+      flag.category === category &&
+      (source === undefined || source === null || flag.source === source)
+  );
+}
+
+/**
+ * Functions callable from rule expressions, bound to one result's flags
+ */
+function ruleFunctions(flags: Flag[]): Record<string, RuleFunction> {
+  const max = (values: number[]) => (values.length ? Math.max(...values) : 0);
+  return {
+    has: (category, source) => flagsOf(flags, category, source).length > 0,
+    count: (category, source) => flagsOf(flags, category, source).length,
+    maxConfidence: (category, source) =>
+      max(flagsOf(flags, category, source).map((f) => f.confidence ?? 0)),
+    maxWeight: (category, source) =>
+      max(flagsOf(flags, category, source).map((f) => f.weight)),
+    hasRule: (ruleId) =>
+      typeof ruleId === 'string' &&
+      flags.some(
+        (flag) => flag.ruleId === ruleId || flag.ruleIds?.includes(ruleId)
+      ),
+  };
+}
+
+const FUNCTION_NAMES = Object.keys(ruleFunctions([]));
+
+let active: CompiledDecisionRule[] | undefined;
+
+/**
+ * Validate rules and compile their expressions, so a bad rule fails at
+ * load time rather than on the first request it meets
+ */
+export function compileDecisionRules(
+  rules: DecisionRule[]
+): CompiledDecisionRule[] {
+  const ids = new Set<string>();
+  return rules
+    .map((input) => DecisionRuleSchema.parse(input))
+    .filter((rule) => rule.enabled)
+    .map((rule) => {
+      if (ids.has(rule.id)) throw new Error(`Duplicate rule id "${rule.id}"`);
+      ids.add(rule.id);
+      try {
+        return { rule, when: compileExpression(rule.when, FUNCTION_NAMES) };
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : 'Unknown error';
+        throw new Error(`Rule "${rule.id}": ${reason}`);
+      }
+    });
+}
+
+export function loadDecisionRules(file: string): CompiledDecisionRule[] {
+  const data = DecisionRulesFileSchema.parse(
+    JSON.parse(fs.readFileSync(file, 'utf-8'))
+  );
+  return compileDecisionRules(data.rules);
+}
+
+/**
+ * Replace the active rules programmatically. Returns the enabled rule count.
+ */
+export function setDecisionRules(rules: DecisionRule[]): number {
+  active = compileDecisionRules(rules);
+  return active.length;
+}
+
+/**
+ * Reload the active rules and swap them in. Without a rules file there are
+ * no rules. On failure the previous rules stay active and the error is
+ * thrown to the caller.
+ */
+export function reloadDecisionRules(
+  file: string | undefined = config.decisions.rulesFile
+): number {
+  active = file ? loadDecisionRules(file) : [];
+  return active.length;
+}
+
+/**
+ * Watch a rules file and reload it on change. The directory is watched, as
+ * for spam rules, so saves that replace the file are seen. Returns a
+ * function that stops watching.
+ */
+export function watchDecisionRules(file: string, debounceMs = 200): () => void {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const name = path.basename(file);
+  const watcher = fs.watch(path.dirname(file), (_event, changed) => {
+    if (changed && changed !== name) return;
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      try {
+        const count = reloadDecisionRules(file);
+        console.log(`Reloaded ${count} decision rules from ${file}`);
+      } catch (error) {
+        console.warn(
+          'Decision rule reload failed, keeping previous rules:',
+          error
+        );
+      }
+    }, debounceMs);
+    timer.unref();
+  });
+
+  return () => {
+    clearTimeout(timer);
+    watcher.close();
+  };
+}
+
+/**
+ * What rule expressions can read. `account` merges the request's account
+ * context (isVerified, priorViolations, ...) with the analyzed features.
+ */
+function buildScope(
+  result: DecisionInput,
+  features: ContextFeatures,
+  context?: Context
+): Scope {
+  const scope = {
+    score: result.score,
+    label: result.label,
+    platform: result.platform,
+    language: result.language?.language ?? null,
+    categories: result.categories ?? {},
+    actions: result.actions,
+    account: { ...context?.account, ...features.account },
+    temporal: features.temporal ?? {},
+    network: features.network ?? {},
+    engagement: features.engagement ?? {},
+    multipliers: Object.fromEntries(
+      (result.explanation?.multipliers ?? []).map((m) => [m.name, m.value])
+    ),
+  };
+  // Plain JSON data only: drops undefined values and anything callable
+  return JSON.parse(JSON.stringify(scope));
+}
+
+/**
+ * Run the decision rules in order over a scored result. Each rule sees the
+ * label and actions left by the rules before it, and every rule that fires
+ * is recorded as an override with its id. The active rules are loaded from
+ * DECISION_RULES_FILE on first use; if that load fails the error is logged
+ * once and moderation runs without rules until a reload succeeds.
+ */
+export function applyDecisionRules(
+  result: DecisionInput,
+  features: ContextFeatures = {},
+  context?: Context,
+  rules?: CompiledDecisionRule[]
+): Pick<Required<ModerationResult>, 'label' | 'actions' | 'overrides'> {
+  if (!rules && !active) {
+    try {
+      reloadDecisionRules();
+    } catch (error) {
+      console.warn('Decision rule load failed, running without rules:', error);
+      active = [];
+    }
+  }
+  rules ??= active!;
+  let { label, actions } = result;
+  const overrides: DecisionOverride[] = [];
+  if (rules.length === 0) return { label, actions, overrides };
+
+  const functions = ruleFunctions(result.flags);
+  const base = buildScope(result, features, context);
+
+  for (const { rule, when } of rules) {
+    if (!truthy(when.evaluate({ ...base, label, actions }, functions))) {
+      continue;
+    }
+
+    const override: DecisionOverride = { ruleId: rule.id };
+    if (rule.then.label && rule.then.label !== label) {
+      override.label = { from: label, to: rule.then.label };
+      label = rule.then.label;
+    }
+
+    const next = new Set(rule.then.actions ?? actions);
+    for (const action of rule.then.addActions ?? []) next.add(action);
+    if (next.size > 1) next.delete('allow');
+    const nextActions = [...next].sort(
+      (a, b) => SEVERITY.indexOf(a) - SEVERITY.indexOf(b)
+    );
+    if (nextActions.join() !== actions.join()) {
+      override.actions = { from: actions, to: nextActions };
+      actions = nextActions;
+    }
+
+    overrides.push(override);
+  }
+
+  return { label, actions, overrides };
+}
@@ -0,0 +1,110 @@
+export interface AhoCorasickMatch<T> {
+  start: number;
+  end: number;
+  value: T;
+}
+
+/**
+ * Aho-Corasick multi-pattern matcher over UTF-16 code units. Finds every
+ * occurrence of every pattern (including overlapping ones) in a single
+ * pass, so matching cost depends on text length and match count rather
+ * than on the number of patterns.
+ */
+export class AhoCorasick<T> {
+  // Trie edges keyed by state * 0x10000 + code unit; one flat map keeps
+  // memory reasonable for tens of thousands of patterns
+  private edges = new Map<number, number>();
+  // Dense transitions out of the root, where most failure chains end
+  private rootEdges = new Int32Array(0x10000);
+  private fail: number[] = [0];
+  // Nearest state reachable by failure links that ends a pattern
+  private outputLink: number[] = [-1];
+  private outputs: Array<Array<{ length: number; value: T }> | undefined> = [
+    undefined,
+  ];
+
+  constructor(patterns: Iterable<[string, T]>) {
+    for (const [pattern, value] of patterns) {
+      if (pattern) this.add(pattern, value);
+    }
+    this.build();
+  }
+
+  get stateCount(): number {
+    return this.fail.length;
+  }
+
+  private add(pattern: string, value: T): void {
+    let state = 0;
+    for (let i = 0; i < pattern.length; i++) {
+      const key = state * 0x10000 + pattern.charCodeAt(i);
+      let next = this.edges.get(key);
+      if (next === undefined) {
+        next = this.fail.length;
+        this.edges.set(key, next);
+        this.fail.push(0);
+        this.outputLink.push(-1);
+        this.outputs.push(undefined);
+      }
+      state = next;
+    }
+    (this.outputs[state] ??= []).push({ length: pattern.length, value });
+  }
+
+  private build(): void {
+    // Group edges by source state for the breadth-first pass
+    const children: Array<Array<[number, number]>> = this.fail.map(() => []);
+    for (const [key, target] of this.edges) {
+      children[Math.floor(key / 0x10000)].push([key % 0x10000, target]);
+    }
+
+    const queue: number[] = [];
+    for (const [unit, target] of children[0]) {
+      this.rootEdges[unit] = target;
+      queue.push(target);
+    }
+
+    for (let head = 0; head < queue.length; head++) {
+      const state = queue[head];
+      for (const [unit, target] of children[state]) {
+        let f = this.fail[state];
+        while (f !== 0 && !this.edges.has(f * 0x10000 + unit)) {
+          f = this.fail[f];
+        }
+        const fallback = this.edges.get(f * 0x10000 + unit);
+        this.fail[target] =
+          fallback !== undefined && fallback !== target ? fallback : 0;
+        const failState = this.fail[target];
+        this.outputLink[target] = this.outputs[failState]
+          ? failState
+          : this.outputLink[failState];
+        queue.push(target);
+      }
+    }
+  }
+
+  /**
+   * Yield every pattern occurrence, ordered by end position
+   */
+  *search(text: string): Generator<AhoCorasickMatch<T>> {
+    let state = 0;
+    for (let i = 0; i < text.length; i++) {
+      const unit = text.charCodeAt(i);
+      let next: number | undefined;
+      while (state !== 0) {
+        next = this.edges.get(state * 0x10000 + unit);
+        if (next !== undefined) break;
+        state = this.fail[state];
+      }
+      state = next ?? this.rootEdges[unit];
+
+      for (let s = state; s !== -1; s = this.outputLink[s]) {
+        const outputs = this.outputs[s];
+        if (!outputs) continue;
+        for (const { length, value } of outputs) {
+          yield { start: i + 1 - length, end: i + 1, value };
+        }
+      }
+    }
+  }
+}
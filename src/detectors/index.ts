@@ -1,24 +1,137 @@
-import { wordlistDetector } from './wordlist.js';
+import {
+  compileWordlists,
+  listBundledLocales,
+  loadBundledLocale,
+} from './wordlist.js';
 import { piiDetector } from './pii.js';
-import { linksDetector } from './links.js';
+import { linkFlags } from './links.js';
+import { phishingDetector } from './phishing.js';
 import { spamDetector } from './spam.js';
+import { socialDetector } from './social.js';
+import { tenantWordlistFlags } from './tenants.js';
+import { registerDetector } from './registry.js';
+import { config } from '../config.js';
+import {
+  analyzeLinks,
+  followShortenedLinks,
+  type LinkAnalysis,
+} from '../links/index.js';
 import type { Flag } from '../schema.js';
+import type { Detector, DetectorContext } from './types.js';
 
-const profanity = wordlistDetector('profanity', 'profanity', 18);
-const hate = wordlistDetector('hate', 'hate', 28);
-const violence = wordlistDetector('violence', 'violence', 30);
-const sexual = wordlistDetector('sexual', 'sexual', 22);
-const selfharm = wordlistDetector('selfharm', 'selfharm', 40);
-
-export function runAllDetectors(text: string): Flag[] {
-  return [
-    ...profanity(text),
-    ...hate(text),
-    ...violence(text),
-    ...sexual(text),
-    ...selfharm(text),
-    ...piiDetector(text),
-    ...linksDetector(text),
-    ...spamDetector(text),
-  ];
+export type { Detector, DetectorContext } from './types.js';
+export {
+  registerDetector,
+  unregisterDetector,
+  listDetectors,
+  getActiveDetectors,
+  runDetectors,
+  type DetectorRun,
+} from './registry.js';
+
+// English lists always run: English profanity is common in code-switched
+// text, and padding a post with another language's stopwords must not
+// switch them off
+const DEFAULT_LOCALE = 'en';
+
+// One automaton per locale covering all of its categories (on top of the
+// default locale's), plus one over every locale for text whose language
+// is unknown
+const localeGroups = new Map(
+  listBundledLocales().map((locale) => [locale, loadBundledLocale(locale)])
+);
+const defaultGroups = localeGroups.get(DEFAULT_LOCALE) ?? [];
+const localeWordlists = new Map(
+  [...localeGroups].map(([locale, groups]) => [
+    locale,
+    compileWordlists(
+      locale === DEFAULT_LOCALE ? groups : [...defaultGroups, ...groups]
+    ),
+  ])
+);
+const allWordlists = compileWordlists([...localeGroups.values()].flat());
+
+/**
+ * Run the default and language's bundled lists, falling back to all
+ * locales when the language is unknown or has no lists
+ */
+export function bundledWordlistFlags(text: string, language?: string): Flag[] {
+  const matcher = (language && localeWordlists.get(language)) || allWordlists;
+  return matcher(text);
 }
+
+// Followed links per run, keyed by the run's context, so the links and
+// phishing detectors share one set of redirect requests
+const followedLinks = new WeakMap<
+  DetectorContext,
+  { text: string; analyses: Promise<LinkAnalysis[]> }
+>();
+
+/**
+ * Analyze the links in text, following shortened links when enabled
+ */
+function linkAnalyses(
+  text: string,
+  ctx: DetectorContext
+): LinkAnalysis[] | Promise<LinkAnalysis[]> {
+  if (!config.links.followRedirects) return analyzeLinks(text);
+  const cached = followedLinks.get(ctx);
+  if (cached?.text === text) return cached.analyses;
+
+  const analyses = followShortenedLinks(analyzeLinks(text), {
+    fetcher: ctx.linkFetcher,
+  });
+  followedLinks.set(ctx, { text, analyses });
+  return analyses;
+}
+
+// Built-in detectors, registered in their default run order
+export const BUILTIN_DETECTORS: Detector[] = [
+  {
+    id: 'wordlist',
+    categories: ['profanity', 'hate', 'violence', 'sexual', 'selfharm'],
+    version: '1.0.0',
+    detect: (text, ctx) => bundledWordlistFlags(text, ctx.language),
+  },
+  {
+    id: 'pii',
+    categories: ['pii'],
+    version: '1.0.0',
+    detect: (text) => piiDetector(text),
+  },
+  {
+    id: 'links',
+    categories: ['links', 'spam'],
+    version: '1.0.0',
+    // Follows shortened links when enabled
+    detect: async (text, ctx) => linkFlags(text, await linkAnalyses(text, ctx)),
+  },
+  {
+    id: 'phishing',
+    categories: ['phishing'],
+    version: '1.0.0',
+    detect: async (text, ctx) =>
+      phishingDetector(text, await linkAnalyses(text, ctx)),
+  },
+  {
+    id: 'spam',
+    categories: ['spam'],
+    version: '1.0.0',
+    detect: (text) => spamDetector(text),
+  },
+  {
+    id: 'social',
+    categories: ['spam', 'drugs', 'weapons', 'violence', 'sexual'],
+    version: '1.0.0',
+    detect: (text) => socialDetector(text),
+  },
+  {
+    id: 'tenant',
+    categories: [], // whatever the tenant's list files are named
+    version: '1.0.0',
+    detect: (text, ctx) =>
+      ctx.tenantId ? tenantWordlistFlags(text, ctx.tenantId) : [],
+  },
+];
+
+for (const detector of BUILTIN_DETECTORS) registerDetector(detector);
@@ -1,54 +1,124 @@
 import type { Flag } from '../schema.js';
+import {
+  analyzeLinks,
+  followShortenedLinks,
+  type HostVerdict,
+  type LinkAnalysis,
+  type RedirectOptions,
+} from '../links/index.js';
 
-const urlRe = /\bhttps?:\/\/[\w.-]+(?:\/[\w\-._~:/?#[\]@!$&'()*+,;=]*)?/gi;
-const shorteners = [
-  'bit.ly',
-  't.co',
-  'goo.gl',
-  'tinyurl.com',
-  'ow.ly',
-  'is.gd',
-  'buff.ly',
-  'cutt.ly',
-  't.ly',
-  'rebrand.ly',
-];
+function describeHost(verdict: HostVerdict): string {
+  return verdict.unicodeHost !== verdict.host
+    ? `${verdict.unicodeHost} (${verdict.host})`
+    : verdict.host;
+}
 
-export function linksDetector(text: string): Flag[] {
-  const flags: Flag[] = [];
-  let m: RegExpExecArray | null;
-  let count = 0;
-  while ((m = urlRe.exec(text))) {
-    const url = m[0];
-    count++;
-    const host = (() => {
-      try {
-        return new URL(url).host.toLowerCase();
-      } catch {
-        return '';
-      }
-    })();
-    if (shorteners.includes(host)) {
-      flags.push({
-        source: 'rule',
-        category: 'links',
+/**
+ * Weight and message for one analyzed link, or null for allowlisted links.
+ * Shortened links that were followed are judged by where they land.
+ */
+function judgeLink(analysis: LinkAnalysis): {
+  ruleId: string;
+  weight: number;
+  message: string;
+} | null {
+  const { target, landing, redirect } = analysis;
+
+  if (target.reputation?.verdict === 'deny') {
+    return {
+      ruleId: 'links.deny',
+      weight: 45,
+      message: `Link to denylisted domain ${describeHost(target)}`,
+    };
+  }
+  if (target.homograph) {
+    return {
+      ruleId: 'links.homograph',
+      weight: 40,
+      message: `Homograph domain ${describeHost(target)} imitates ${target.skeleton}`,
+    };
+  }
+
+  if (landing && redirect) {
+    const hops = redirect.hops.length - 1;
+    if (landing.reputation?.verdict === 'deny') {
+      return {
+        ruleId: 'links.redirect-deny',
+        weight: 45,
+        message: `Shortened link redirects to denylisted domain ${describeHost(landing)} after ${hops} hop(s)`,
+      };
+    }
+    if (landing.homograph) {
+      return {
+        ruleId: 'links.redirect-homograph',
+        weight: 40,
+        message: `Shortened link redirects to homograph domain ${describeHost(landing)}`,
+      };
+    }
+    if (!redirect.complete || landing.reputation?.verdict === 'shortener') {
+      return {
+        ruleId: 'links.shortener',
         weight: 30,
-        message: 'Suspicious link shortener',
-        indices: [m.index, m.index + url.length],
-        snippet: url,
-      });
-    } else {
-      flags.push({
-        source: 'rule',
-        category: 'links',
+        message: `Suspicious link shortener (redirects unresolved: ${redirect.error ?? 'lands on another shortener'})`,
+      };
+    }
+    if (landing.reputation?.verdict === 'allow') {
+      return {
+        ruleId: 'links.redirect-allow',
         weight: 5,
-        message: 'External link',
-        indices: [m.index, m.index + url.length],
-        snippet: url,
-      });
+        message: `Shortened link redirects to allowlisted domain ${describeHost(landing)}`,
+      };
     }
+    return {
+      ruleId: 'links.redirect',
+      weight: 15,
+      message: `Shortened link redirects to ${describeHost(landing)}`,
+    };
   }
-  if (count >= 3) {
+
+  if (target.reputation?.verdict === 'shortener') {
+    return {
+      ruleId: 'links.shortener',
+      weight: 30,
+      message: 'Suspicious link shortener',
+    };
+  }
+  if (target.reputation?.verdict === 'allow') return null;
+  return { ruleId: 'links.external', weight: 5, message: 'External link' };
+}
+
+/**
+ * Build link flags from analyzed links, plus a spam flag for link-heavy text
+ */
+export function linkFlags(text: string, analyses: LinkAnalysis[]): Flag[] {
+  const flags: Flag[] = [];
+  for (const analysis of analyses) {
+    const judged = judgeLink(analysis);
+    if (!judged) continue;
+
+    const { link, target, redirect, landing } = analysis;
+    // Defanged links ("example[.]com") are written to slip past filters
+    const weight = link.defanged ? judged.weight + 10 : judged.weight;
+    flags.push({
+      source: 'rule',
+      category: 'links',
+      weight,
+      message: link.defanged ? `${judged.message} (defanged)` : judged.message,
+      indices: [link.start, link.end],
+      snippet: link.raw,
+      ruleId: judged.ruleId,
+      link: {
+        url: link.url,
+        host: target.host,
+        unicodeHost:
+          target.unicodeHost !== target.host ? target.unicodeHost : undefined,
+        reputation: (landing ?? target).reputation?.verdict,
+        redirects: redirect?.hops,
+      },
+    });
+  }
+
+  if (analyses.length >= 3) {
     flags.push({
       source: 'rule',
       category: 'spam',
@@ -56,7 +126,27 @@ export function linksDetector(text: string): Flag[] {
       message: 'Too many links',
       indices: [0, Math.min(140, text.length)],
       snippet: text.slice(0, 140),
+      ruleId: 'spam.too-many-links',
+      aggregate: true,
     });
   }
   return flags;
 }
+
+export function linksDetector(text: string): Flag[] {
+  return linkFlags(text, analyzeLinks(text));
+}
+
+/**
+ * Like linksDetector, but follows shortened links through their redirect
+ * chain first
+ */
+export async function resolvingLinksDetector(
+  text: string,
+  options: RedirectOptions = {}
+): Promise<Flag[]> {
+  return linkFlags(
+    text,
+    await followShortenedLinks(analyzeLinks(text), options)
+  );
+}
@@ -0,0 +1,113 @@
+import { Flag } from '../schema.js';
+
+export type EnsembleStrategy = 'max' | 'mean' | 'weighted' | 'vote';
+
+export interface EnsembleOptions {
+  strategy: EnsembleStrategy;
+  minAgree: number; // k in k-of-n voting
+  trust: Record<string, number>; // per-provider trust for weighted mode
+  threshold: number; // confidence at which a provider "agrees"
+}
+
+export interface ProviderCategories {
+  provider: string;
+  categories: Record<string, { confidence: number; label: string }>;
+}
+
+export interface EnsembleVote {
+  provider: string;
+  confidence: number;
+  agreed: boolean;
+}
+
+/**
+ * Combine per-category confidences from several providers into one ML flag
+ * per category, keeping each provider's raw vote for explainability
+ */
+export function combineProviderResults(
+  results: ProviderCategories[],
+  options: EnsembleOptions
+): Flag[] {
+  if (results.length === 0) return [];
+
+  const categories = new Set<string>();
+  for (const result of results) {
+    for (const category of Object.keys(result.categories)) {
+      categories.add(category);
+    }
+  }
+
+  const flags: Flag[] = [];
+  for (const category of categories) {
+    // Providers that did not report a category count as 0 confidence
+    const votes: EnsembleVote[] = results.map((result) => {
+      const confidence = result.categories[category]?.confidence ?? 0;
+      return {
+        provider: result.provider,
+        confidence,
+        agreed: confidence > options.threshold,
+      };
+    });
+
+    const confidence = combineConfidences(votes, options);
+    if (confidence <= options.threshold) continue;
+
+    const agreeing = votes.filter((v) => v.agreed);
+    const strongest = results.reduce((best, r) =>
+      (r.categories[category]?.confidence ?? 0) >
+      (best.categories[category]?.confidence ?? 0)
+        ? r
+        : best
+    );
+    const label = strongest.categories[category]?.label ?? category;
+
+    flags.push({
+      source: 'ml',
+      category,
+      weight: Math.round(confidence * 40), // Scale confidence to weight
+      message: `ML ensemble (${options.strategy}, ${agreeing.length}/${votes.length} providers agree): ${label} (${(confidence * 100).toFixed(1)}%)`,
+      confidence,
+      provider: agreeing.map((v) => v.provider).join('+') || 'ensemble',
+      ensemble: { strategy: options.strategy, votes },
+    });
+  }
+
+  return flags;
+}
+
+/**
+ * Apply the configured combination rule to one category's votes
+ */
+function combineConfidences(
+  votes: EnsembleVote[],
+  options: EnsembleOptions
+): number {
+  switch (options.strategy) {
+    case 'max':
+      return Math.max(...votes.map((v) => v.confidence));
+
+    case 'mean':
+      return votes.reduce((sum, v) => sum + v.confidence, 0) / votes.length;
+
+    case 'weighted': {
+      let total = 0;
+      let trustSum = 0;
+      for (const vote of votes) {
+        const trust = options.trust[vote.provider] ?? 1.0;
+        total += vote.confidence * trust;
+        trustSum += trust;
+      }
+      return trustSum > 0 ? total / trustSum : 0;
+    }
+
+    case 'vote': {
+      const agreeing = votes.filter((v) => v.agreed);
+      if (agreeing.length < options.minAgree) {
+        return 0;
+      }
+      return (
+        agreeing.reduce((sum, v) => sum + v.confidence, 0) / agreeing.length
+      );
+    }
+  }
+}
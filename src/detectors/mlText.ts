@@ -1,78 +1,188 @@
 import { config } from '../config.js';
 import { Flag } from '../schema.js';
-import { AnthropicProvider } from '../providers/nlp/anthropic.js';
+import { createNLPProviders } from '../providers/nlp/registry.js';
+import { NLPProvider } from '../providers/nlp/types.js';
+import {
+  combineProviderResults,
+  type EnsembleStrategy,
+  type ProviderCategories,
+} from './mlEnsemble.js';
+
+export interface MLProviderAttempt {
+  provider: string;
+  status: 'ok' | 'disabled' | 'error';
+  error?: string;
+}
 
 export interface MLTextResult {
   flags: Flag[];
   provider: string;
   enabled: boolean;
+  attempts: MLProviderAttempt[];
 }
 
+const ML_FLAG_THRESHOLD = 0.6;
+
 /**
- * ML-based text moderation using NLP providers
+ * ML-based text moderation using the configured NLP providers.
+ * By default providers are tried in order and a disabled or failing
+ * provider falls through to the next one; with NLP_ENSEMBLE set, all
+ * providers are called in parallel and their confidences combined.
  */
-export async function moderateTextWithML(text: string): Promise<MLTextResult> {
+export async function moderateTextWithML(
+  text: string,
+  providers?: NLPProvider[]
+): Promise<MLTextResult> {
   if (!config.enableLLM) {
     return {
       flags: [],
       provider: 'none',
       enabled: false,
+      attempts: [],
     };
   }
 
-  try {
-    // Use Anthropic as the default provider
-    const provider = new AnthropicProvider();
+  const chain = providers ?? createNLPProviders();
+  if (config.nlp.ensemble !== 'first') {
+    return runProviderEnsemble(text, chain, config.nlp.ensemble);
+  }
 
-    if (!provider.isEnabled()) {
+  const attempts: MLProviderAttempt[] = [];
+
+  for (const provider of chain) {
+    const { attempt, categories } = await callProvider(provider, text);
+    attempts.push(attempt);
+
+    if (categories) {
       return {
-        flags: [],
-        provider: provider.getName(),
-        enabled: false,
+        flags: categoriesToFlags(categories, attempt.provider),
+        provider: attempt.provider,
+        enabled: true,
+        attempts,
       };
     }
+  }
+
+  return {
+    flags: [],
+    provider: attempts.map((a) => a.provider).join(',') || 'none',
+    enabled: false,
+    attempts,
+  };
+}
+
+/**
+ * Call every enabled provider in parallel and combine per-category votes
+ */
+async function runProviderEnsemble(
+  text: string,
+  providers: NLPProvider[],
+  strategy: EnsembleStrategy
+): Promise<MLTextResult> {
+  const calls = await Promise.all(
+    providers.map((provider) => callProvider(provider, text))
+  );
+  const attempts = calls.map((c) => c.attempt);
+  const responses: ProviderCategories[] = [];
+  for (const { attempt, categories } of calls) {
+    if (categories) responses.push({ provider: attempt.provider, categories });
+  }
+
+  if (responses.length === 0) {
+    return {
+      flags: [],
+      provider: attempts.map((a) => a.provider).join(',') || 'none',
+      enabled: false,
+      attempts,
+    };
+  }
 
+  return {
+    flags: combineProviderResults(responses, {
+      strategy,
+      minAgree: config.nlp.minAgree,
+      trust: config.nlp.trust,
+      threshold: ML_FLAG_THRESHOLD,
+    }),
+    provider: responses.map((r) => r.provider).join(','),
+    enabled: true,
+    attempts,
+  };
+}
+
+/**
+ * Call one provider, converting disabled state, error results and thrown
+ * errors into an attempt record
+ */
+async function callProvider(
+  provider: NLPProvider,
+  text: string
+): Promise<{
+  attempt: MLProviderAttempt;
+  categories?: ProviderCategories['categories'];
+}> {
+  const name = provider.getName();
+
+  if (!provider.isEnabled()) {
+    return { attempt: { provider: name, status: 'disabled' } };
+  }
+
+  try {
     const result = await provider.moderateText(text);
 
     if (!result.enabled || !result.categories) {
+      if (result.error) {
+        console.warn(`ML text moderation via ${name} failed:`, result.error);
+      }
       return {
-        flags: [],
-        provider: provider.getName(),
-        enabled: false,
+        attempt: {
+          provider: name,
+          status: result.error ? 'error' : 'disabled',
+          error: result.error,
+        },
       };
     }
 
-    // Convert provider results to flags
-    const flags: Flag[] = [];
-    for (const [category, detection] of Object.entries(result.categories)) {
-      if (detection.confidence > 0.6) {
-        // Only flag high-confidence results
-        flags.push({
-          source: 'ml',
-          category,
-          weight: Math.round(detection.confidence * 40), // Scale confidence to weight
-          message: `ML detection: ${detection.label} (${(detection.confidence * 100).toFixed(1)}%)`,
-          confidence: detection.confidence,
-          provider: provider.getName(),
-        });
-      }
-    }
-
     return {
-      flags,
-      provider: provider.getName(),
-      enabled: true,
+      attempt: { provider: name, status: 'ok' },
+      categories: result.categories,
     };
   } catch (error) {
-    console.warn('ML text moderation failed:', error);
+    console.warn(`ML text moderation via ${name} failed:`, error);
     return {
-      flags: [],
-      provider: 'error',
-      enabled: false,
+      attempt: {
+        provider: name,
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
     };
   }
 }
 
+/**
+ * Convert provider category results to flags tagged with the provider name
+ */
+function categoriesToFlags(
+  categories: Record<string, { confidence: number; label: string }>,
+  provider: string
+): Flag[] {
+  const flags: Flag[] = [];
+  for (const [category, detection] of Object.entries(categories)) {
+    if (detection.confidence > ML_FLAG_THRESHOLD) {
+      // Only flag high-confidence results
+      flags.push({
+        source: 'ml',
+        category,
+        weight: Math.round(detection.confidence * 40), // Scale confidence to weight
+        message: `ML detection (${provider}): ${detection.label} (${(detection.confidence * 100).toFixed(1)}%)`,
+        confidence: detection.confidence,
+        provider,
+      });
+    }
+  }
+  return flags;
+}
+
 /**
  * Merge ML flags with rule-based flags, handling conflicts
  */
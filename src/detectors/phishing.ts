@@ -0,0 +1,73 @@
+import type { Flag } from '../schema.js';
+import { analyzeLinks, type LinkAnalysis } from '../links/index.js';
+import { getBrands, matchBrandLookalike } from '../links/brands.js';
+import { createWordlistMatcher, parseWordlist } from './wordlist.js';
+
+let lureMatcher: ((text: string) => Flag[]) | undefined;
+
+function findLures(text: string): Flag[] {
+  lureMatcher ??= createWordlistMatcher(
+    'phishing',
+    parseWordlist(getBrands().lures, 'phishing-lure'),
+    { mode: 'token' }
+  );
+  return lureMatcher(text);
+}
+
+const TECHNIQUE_LABELS = {
+  confusable: 'lookalike spelling',
+  typosquat: 'misspelling',
+  combosquat: 'brand name plus extra words',
+  subdomain: 'brand name as a subdomain',
+};
+
+/**
+ * Flag links to hosts that imitate a protected brand when the same post
+ * uses credential-lure wording ("verify your account"). Either signal
+ * alone is common in legitimate posts; together they are phishing.
+ * Shortened links that were followed are also judged by where they land.
+ */
+export function phishingDetector(
+  text: string,
+  analyses: LinkAnalysis[] = analyzeLinks(text)
+): Flag[] {
+  const lookalikes = analyses.flatMap((analysis) => {
+    for (const host of [analysis.target, analysis.landing]) {
+      const match = host && matchBrandLookalike(host.host, host.unicodeHost);
+      if (match) return [{ analysis, host, match }];
+    }
+    return [];
+  });
+  if (lookalikes.length === 0) return [];
+
+  const lures = findLures(text);
+  if (lures.length === 0) return [];
+  const lurePhrases = [...new Set(lures.map((l) => l.snippet))];
+
+  return lookalikes.map(({ analysis, host, match }) => {
+    const { link, target } = analysis;
+    const distance =
+      match.distance > 0 ? `, edit distance ${match.distance}` : '';
+    const redirected =
+      host === target ? '' : ` (redirects from ${target.unicodeHost})`;
+    return {
+      source: 'rule',
+      category: 'phishing',
+      weight: 50,
+      severity: 'high',
+      message: `Possible ${match.brand} phishing link: ${host.unicodeHost}${redirected}`,
+      indices: [link.start, link.end],
+      snippet: link.raw,
+      ruleId: `phishing.${match.technique}`,
+      rationale:
+        `"${host.unicodeHost}" is not an official ${match.brand} domain but imitates it ` +
+        `(${TECHNIQUE_LABELS[match.technique]}: "${match.label}" vs "${match.keyword}"${distance}), ` +
+        `and the post uses credential-lure wording: ${lurePhrases.map((p) => `"${p}"`).join(', ')}`,
+      link: {
+        url: link.url,
+        host: target.host,
+        redirects: analysis.redirect?.hops,
+      },
+    };
+  });
+}
@@ -0,0 +1,82 @@
+import { config } from '../config.js';
+import type { Flag } from '../schema.js';
+import type { Detector, DetectorContext } from './types.js';
+
+const detectors = new Map<string, Detector>();
+
+export interface DetectorRun {
+  flags: Flag[];
+  timings: Record<string, number>; // ms per detector id
+}
+
+/**
+ * Register (or replace) a detector. New detectors run after the ones
+ * already registered unless DETECTORS_ORDER says otherwise.
+ */
+export function registerDetector(detector: Detector): void {
+  detectors.set(detector.id, detector);
+}
+
+/**
+ * Remove a detector; returns false when it was not registered
+ */
+export function unregisterDetector(id: string): boolean {
+  return detectors.delete(id);
+}
+
+/**
+ * List all registered detectors in registration order
+ */
+export function listDetectors(): Detector[] {
+  return [...detectors.values()];
+}
+
+/**
+ * Resolve the detectors to run: ids in `order` first, in that order, then
+ * the rest in registration order, minus any in `disabled`
+ */
+export function getActiveDetectors(
+  order: string[] = config.detectors.order,
+  disabled: string[] = config.detectors.disabled
+): Detector[] {
+  const skip = new Set(disabled);
+  const ordered: Detector[] = [];
+
+  for (const id of order) {
+    const detector = detectors.get(id);
+    if (!detector) {
+      console.warn(`Unknown detector "${id}" in DETECTORS_ORDER, skipping`);
+      continue;
+    }
+    if (!ordered.includes(detector)) ordered.push(detector);
+  }
+  for (const detector of detectors.values()) {
+    if (!ordered.includes(detector)) ordered.push(detector);
+  }
+
+  return ordered.filter((detector) => !skip.has(detector.id));
+}
+
+/**
+ * Run every active detector once, in order. A detector that throws is
+ * logged and skipped so one faulty plugin cannot fail the request.
+ */
+export async function runDetectors(
+  text: string,
+  ctx: DetectorContext = {}
+): Promise<DetectorRun> {
+  const flags: Flag[] = [];
+  const timings: Record<string, number> = {};
+
+  for (const detector of getActiveDetectors()) {
+    const t0 = Date.now();
+    try {
+      flags.push(...(await detector.detect(text, ctx)));
+    } catch (error) {
+      console.warn(`Detector "${detector.id}" failed, skipping:`, error);
+    }
+    timings[detector.id] = Date.now() - t0;
+  }
+
+  return { flags, timings };
+}
@@ -0,0 +1,189 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+import { config } from '../config.js';
+import type { Flag } from '../schema.js';
+import { emojiBase, tokenizeSocial, type SocialToken } from '../social.js';
+
+export const EmojiCodesFileSchema = z.object({
+  version: z.literal(1),
+  combos: z.array(
+    z.object({
+      id: z.string(),
+      category: z.string(),
+      weight: z.number(),
+      severity: z.enum(['low', 'medium', 'high', 'critical']).optional(),
+      meaning: z.string(),
+      // Every element must appear; an array element lists alternatives
+      emoji: z.array(z.union([z.string(), z.array(z.string()).min(1)])).min(2),
+    })
+  ),
+});
+
+interface CompiledCombo {
+  id: string;
+  category: string;
+  weight: number;
+  severity?: 'low' | 'medium' | 'high' | 'critical';
+  meaning: string;
+  elements: Set<string>[];
+}
+
+const bundledFile = path.join(
+  path.dirname(new URL(import.meta.url).pathname),
+  '..',
+  'resources',
+  'emoji-codes.json'
+);
+
+const nonGapRe = /[\p{L}\p{N}]/u;
+
+let combos: CompiledCombo[] | undefined;
+
+export function loadEmojiCodes(
+  file: string = config.social.emojiCodesFile ?? bundledFile
+): CompiledCombo[] {
+  const data = EmojiCodesFileSchema.parse(
+    JSON.parse(fs.readFileSync(file, 'utf-8'))
+  );
+  combos = data.combos.map(({ emoji, ...combo }) => ({
+    ...combo,
+    elements: emoji.map(
+      (element) =>
+        new Set((Array.isArray(element) ? element : [element]).map(emojiBase))
+    ),
+  }));
+  return combos;
+}
+
+/**
+ * Group emoji into runs: emoji separated only by spaces or punctuation.
+ * Coded messages are written as runs ("🔌💊 📦"); emoji scattered across
+ * sentences are not read as one code.
+ */
+function emojiRuns(text: string, emoji: SocialToken[]): SocialToken[][] {
+  const runs: SocialToken[][] = [];
+  for (const token of emoji) {
+    const run = runs[runs.length - 1];
+    const prev = run?.[run.length - 1];
+    if (prev && !nonGapRe.test(text.slice(prev.end, token.start))) {
+      run.push(token);
+    } else {
+      runs.push([token]);
+    }
+  }
+  return runs;
+}
+
+/**
+ * Match a combo against one run, using each emoji for one element at most
+ */
+function matchCombo(
+  combo: CompiledCombo,
+  run: SocialToken[]
+): SocialToken[] | null {
+  const used = new Set<SocialToken>();
+  for (const element of combo.elements) {
+    const token = run.find((t) => !used.has(t) && element.has(t.value));
+    if (!token) return null;
+    used.add(token);
+  }
+  return [...used];
+}
+
+function stuffingFlag(
+  text: string,
+  tokens: SocialToken[],
+  ruleId: string,
+  weight: number,
+  message: string
+): Flag {
+  const indices: [number, number] = [
+    tokens[0].start,
+    tokens[tokens.length - 1].end,
+  ];
+  return {
+    source: 'rule',
+    category: 'spam',
+    weight,
+    message,
+    indices,
+    snippet: text.slice(...indices),
+    ruleId,
+    aggregate: true,
+  };
+}
+
+/**
+ * Flag hashtag stuffing, mass mentions, emoji floods and known coded emoji
+ * combinations (drug, weapon and sexual codes from emoji-codes.json)
+ */
+export function socialDetector(text: string): Flag[] {
+  const tokens = tokenizeSocial(text);
+  if (tokens.length === 0) return [];
+
+  const { hashtagThreshold, mentionThreshold, emojiThreshold } = config.social;
+  const byType = (type: SocialToken['type']) =>
+    tokens.filter((t) => t.type === type);
+  const hashtags = byType('hashtag');
+  const mentions = byType('mention');
+  const emoji = byType('emoji');
+  const flags: Flag[] = [];
+
+  if (hashtags.length >= hashtagThreshold) {
+    flags.push(
+      stuffingFlag(
+        text,
+        hashtags,
+        'spam.hashtag-stuffing',
+        15,
+        `Hashtag stuffing: ${hashtags.length} hashtags`
+      )
+    );
+  }
+  if (mentions.length >= mentionThreshold) {
+    flags.push(
+      stuffingFlag(
+        text,
+        mentions,
+        'spam.mass-mentions',
+        20,
+        `Mass mentions: ${mentions.length} accounts`
+      )
+    );
+  }
+  if (emoji.length >= emojiThreshold) {
+    flags.push(
+      stuffingFlag(
+        text,
+        emoji,
+        'spam.emoji-flood',
+        8,
+        `Emoji flood: ${emoji.length} emoji`
+      )
+    );
+  }
+
+  combos ??= loadEmojiCodes();
+  for (const run of emojiRuns(text, emoji)) {
+    for (const combo of combos) {
+      const matched = matchCombo(combo, run);
+      if (!matched) continue;
+      const start = Math.min(...matched.map((t) => t.start));
+      const end = Math.max(...matched.map((t) => t.end));
+      flags.push({
+        source: 'rule',
+        category: combo.category,
+        weight: combo.weight,
+        severity: combo.severity,
+        message: `Coded emoji: ${combo.meaning}`,
+        indices: [start, end],
+        snippet: text.slice(start, end),
+        ruleId: combo.id,
+        rationale: `${matched.map((t) => t.raw).join(' ')} is a known code for ${combo.meaning}`,
+      });
+    }
+  }
+
+  return flags;
+}
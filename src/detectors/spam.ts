@@ -1,41 +1,228 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { clearTimeout, setTimeout } from 'node:timers';
+import { z } from 'zod';
+import { config } from '../config.js';
 import type { Flag } from '../schema.js';
+import { createWordlistMatcher, parseWordlist } from './wordlist.js';
 
-export function spamDetector(text: string): Flag[] {
-  const flags: Flag[] = [];
-  const len = text.length || 1;
-  const caps = (text.match(/[A-Z]/g) || []).length;
-  const ratio = caps / len;
-  if (ratio > 0.5 && len > 10) {
-    flags.push({
-      source: 'rule',
-      category: 'spam',
-      weight: 10,
-      message: 'Excessive ALL CAPS',
-      indices: [0, Math.min(140, len)],
-      snippet: text.slice(0, 140),
-    });
-  }
-  if (/([!?\.])\1{3,}/.test(text)) {
-    const m = /([!?\.])\1{3,}/.exec(text)!;
-    flags.push({
-      source: 'rule',
-      category: 'spam',
-      weight: 8,
-      message: 'Excessive punctuation',
-      indices: [m.index, m.index + m[0].length],
-      snippet: m[0],
-    });
-  }
-  if (/(free\s+money|giveaway|dm\s+to\s+claim)/i.test(text)) {
-    const m = /(free\s+money|giveaway|dm\s+to\s+claim)/i.exec(text)!;
-    flags.push({
-      source: 'rule',
-      category: 'spam',
-      weight: 18,
-      message: 'Scam-like phrase',
-      indices: [m.index, m.index + m[0].length],
-      snippet: m[0],
-    });
+const RuleBase = z.object({
+  id: z.string(),
+  category: z.string().default('spam'),
+  weight: z.number(),
+  severity: z.enum(['low', 'medium', 'high', 'critical']).optional(),
+  // May use {match}, {count} and {ratio} placeholders
+  message: z.string(),
+  enabled: z.boolean().default(true),
+});
+
+export const SpamRuleSchema = z.discriminatedUnion('type', [
+  // Flags the first regex match
+  RuleBase.extend({
+    type: z.literal('regex'),
+    pattern: z.string(),
+    flags: z.string().default(''),
+  }),
+  // Flags the first keyword found, matched like a wordlist (normalized,
+  // whole tokens, "*" / "=" markers allowed)
+  RuleBase.extend({
+    type: z.literal('keywords'),
+    keywords: z.array(z.string()).min(1),
+  }),
+  // Flags when matches of `pattern` make up more than `above` of the
+  // characters (or of the matches of `of`, when given). `flags` apply to
+  // both patterns; "g" and "u" are always on.
+  RuleBase.extend({
+    type: z.literal('ratio'),
+    pattern: z.string(),
+    flags: z.string().default(''),
+    of: z.string().optional(),
+    above: z.number(),
+    minLength: z.number().default(0),
+  }),
+  // Flags when `pattern` matches at least `atLeast` times
+  RuleBase.extend({
+    type: z.literal('count'),
+    pattern: z.string(),
+    flags: z.string().default(''),
+    atLeast: z.number().int().positive(),
+  }),
+]);
+
+export const SpamRulesFileSchema = z.object({
+  version: z.literal(1),
+  rules: z.array(SpamRuleSchema),
+});
+
+export type SpamRule = z.infer<typeof SpamRuleSchema>;
+
+type CompiledRule = (text: string) => Flag | null;
+
+const bundledFile = path.join(
+  path.dirname(new URL(import.meta.url).pathname),
+  '..',
+  'resources',
+  'spam-rules.json'
+);
+
+let compiled: CompiledRule[] | undefined;
+
+function fillMessage(
+  template: string,
+  values: Record<string, string | number>
+): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+    key in values ? String(values[key]) : placeholder
+  );
+}
+
+function countMatches(re: RegExp, text: string): RegExpMatchArray[] {
+  return [...text.matchAll(re)];
+}
+
+/**
+ * A rule's flags plus "g" for counting and "u" for Unicode property
+ * escapes, unless the rule asks for "v" (which excludes "u")
+ */
+function globalRegExp(pattern: string, flags: string): RegExp {
+  const extra = flags.includes('v') ? 'g' : 'gu';
+  return new RegExp(pattern, [...new Set(flags + extra)].join(''));
+}
+
+/**
+ * Compile one declarative rule into a matcher. Invalid regexes throw so a
+ * bad rules file is rejected as a whole.
+ */
+export function compileSpamRule(rule: SpamRule): CompiledRule {
+  const flag = (
+    indices: [number, number],
+    text: string,
+    values: Record<string, string | number>
+  ): Flag => ({
+    source: 'rule',
+    category: rule.category,
+    weight: rule.weight,
+    severity: rule.severity,
+    message: fillMessage(rule.message, values),
+    indices,
+    snippet: text.slice(indices[0], indices[1]),
+    ruleId: rule.id,
+  });
+
+  switch (rule.type) {
+    case 'regex': {
+      const re = new RegExp(rule.pattern, rule.flags.replace('g', ''));
+      return (text) => {
+        const m = re.exec(text);
+        return m
+          ? flag([m.index, m.index + m[0].length], text, { match: m[0] })
+          : null;
+      };
+    }
+
+    case 'keywords': {
+      const matcher = createWordlistMatcher(
+        rule.category,
+        parseWordlist(rule.keywords, rule.id),
+        { mode: 'token' }
+      );
+      return (text) => {
+        const [first] = matcher(text);
+        return first?.indices
+          ? flag(first.indices, text, { match: first.snippet ?? '' })
+          : null;
+      };
+    }
+
+    case 'ratio': {
+      const re = globalRegExp(rule.pattern, rule.flags);
+      const of = rule.of ? globalRegExp(rule.of, rule.flags) : undefined;
+      return (text) => {
+        if (text.length < rule.minLength) return null;
+        const total = of ? countMatches(of, text).length : text.length;
+        if (total === 0) return null;
+        const ratio = countMatches(re, text).length / total;
+        if (ratio <= rule.above) return null;
+        return {
+          ...flag([0, Math.min(140, text.length)], text, {
+            ratio: ratio.toFixed(2),
+          }),
+          aggregate: true,
+        };
+      };
+    }
+
+    case 'count': {
+      const re = globalRegExp(rule.pattern, rule.flags);
+      return (text) => {
+        const matches = countMatches(re, text);
+        if (matches.length < rule.atLeast) return null;
+        const last = matches[matches.length - 1];
+        return {
+          ...flag([matches[0].index!, last.index! + last[0].length], text, {
+            count: matches.length,
+          }),
+          aggregate: true,
+        };
+      };
+    }
   }
-  return flags;
+}
+
+/**
+ * Parse and compile a rules file, skipping disabled rules
+ */
+export function loadSpamRules(file: string): CompiledRule[] {
+  const data = SpamRulesFileSchema.parse(
+    JSON.parse(fs.readFileSync(file, 'utf-8'))
+  );
+  return data.rules.filter((rule) => rule.enabled).map(compileSpamRule);
+}
+
+/**
+ * Reload the active rules and swap them in. On failure the previous rules
+ * stay active and the error is thrown to the caller.
+ */
+export function reloadSpamRules(
+  file: string = config.spam.rulesFile ?? bundledFile
+): number {
+  const next = loadSpamRules(file);
+  compiled = next;
+  return next.length;
+}
+
+/**
+ * Watch a rules file and reload it on change. The directory is watched,
+ * since editors that save by renaming replace the file a file watch is
+ * bound to. Returns a function that stops watching.
+ */
+export function watchSpamRules(file: string, debounceMs = 200): () => void {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const name = path.basename(file);
+  const watcher = fs.watch(path.dirname(file), (_event, changed) => {
+    if (changed && changed !== name) return;
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      try {
+        const count = reloadSpamRules(file);
+        console.log(`Reloaded ${count} spam rules from ${file}`);
+      } catch (error) {
+        console.warn('Spam rule reload failed, keeping previous rules:', error);
+      }
+    }, debounceMs);
+    timer.unref();
+  });
+
+  return () => {
+    clearTimeout(timer);
+    watcher.close();
+  };
+}
+
+export function spamDetector(text: string): Flag[] {
+  if (!compiled) reloadSpamRules();
+  return compiled!.flatMap((rule) => {
+    const flag = rule(text);
+    return flag ? [flag] : [];
+  });
 }
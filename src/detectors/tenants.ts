@@ -0,0 +1,223 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { clearTimeout, setTimeout } from 'node:timers';
+import { config } from '../config.js';
+import type { Flag } from '../schema.js';
+import {
+  DEFAULT_LIST_WEIGHTS,
+  compileWordlists,
+  parseWordlist,
+  type WordlistEntry,
+} from './wordlist.js';
+
+export interface TenantList {
+  category: string;
+  entries: WordlistEntry[];
+  source: 'directory' | 'api';
+}
+
+type TenantSnapshot = ReadonlyMap<string, ReadonlyMap<string, TenantList>>;
+
+// Snapshots are replaced wholesale, never mutated, so a request that has
+// already looked up its tenant keeps a consistent view during a reload
+let directoryLists: TenantSnapshot = new Map();
+let apiLists: TenantSnapshot = new Map();
+// One compiled automaton per tenant, covering all of its categories
+let matchers: ReadonlyMap<string, (text: string) => Flag[]> = new Map();
+
+const tenantIdRe = /^[A-Za-z0-9_.-]+$/;
+
+function compileList(
+  tenantId: string,
+  category: string,
+  data: unknown,
+  source: TenantList['source']
+): TenantList {
+  return {
+    category,
+    entries: parseWordlist(data, `${tenantId}/${category}`),
+    source,
+  };
+}
+
+/**
+ * Recompile matchers for the given tenants (all tenants by default) and
+ * swap the matcher table in
+ */
+function rebuildMatchers(tenantIds?: string[]): void {
+  const next = new Map(tenantIds ? matchers : []);
+  const ids =
+    tenantIds ?? new Set([...directoryLists.keys(), ...apiLists.keys()]);
+
+  for (const tenantId of ids) {
+    const lists = getTenantLists(tenantId);
+    if (lists.length === 0) {
+      next.delete(tenantId);
+      continue;
+    }
+    next.set(
+      tenantId,
+      compileWordlists(
+        lists.map((list) => ({
+          category: list.category,
+          entries: list.entries,
+          weight: DEFAULT_LIST_WEIGHTS[list.category],
+          tenant: tenantId,
+        }))
+      )
+    );
+  }
+  matchers = next;
+}
+
+/**
+ * Read "<dir>/<tenantId>/<category>.json" lists into a fresh snapshot.
+ * Throws on the first invalid file so a bad edit never half-applies.
+ */
+export function loadTenantDirectory(dir: string): TenantSnapshot {
+  const snapshot = new Map<string, Map<string, TenantList>>();
+
+  for (const tenant of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (!tenant.isDirectory() || !tenantIdRe.test(tenant.name)) continue;
+
+    const lists = new Map<string, TenantList>();
+    const tenantDir = path.join(dir, tenant.name);
+    for (const file of fs.readdirSync(tenantDir)) {
+      if (!file.endsWith('.json')) continue;
+      const category = path.basename(file, '.json');
+      const filePath = path.join(tenantDir, file);
+      try {
+        const data: unknown = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        lists.set(
+          category,
+          compileList(tenant.name, category, data, 'directory')
+        );
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        throw new Error(`Invalid tenant list ${filePath}: ${msg}`);
+      }
+    }
+    snapshot.set(tenant.name, lists);
+  }
+
+  return snapshot;
+}
+
+/**
+ * Reload all directory-backed tenant lists and swap them in atomically.
+ * On failure the previous lists stay active.
+ */
+export function reloadTenantLists(
+  dir: string | undefined = config.tenants.dir
+): string[] {
+  if (!dir) return [];
+  directoryLists = loadTenantDirectory(dir);
+  rebuildMatchers();
+  return [...directoryLists.keys()];
+}
+
+/**
+ * Watch the tenant directory and reload on change. Returns a function that
+ * stops watching.
+ */
+export function watchTenantLists(dir: string, debounceMs = 200): () => void {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const watcher = fs.watch(dir, { recursive: true }, () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      try {
+        const tenants = reloadTenantLists(dir);
+        console.log(`Reloaded tenant lists for: ${tenants.join(', ')}`);
+      } catch (error) {
+        console.warn(
+          'Tenant list reload failed, keeping previous lists:',
+          error
+        );
+      }
+    }, debounceMs);
+    timer.unref();
+  });
+
+  return () => {
+    clearTimeout(timer);
+    watcher.close();
+  };
+}
+
+/**
+ * Set or replace one tenant list through the API. API lists take precedence
+ * over a directory list of the same category.
+ */
+export function setTenantList(
+  tenantId: string,
+  category: string,
+  data: unknown
+): TenantList {
+  if (!tenantIdRe.test(tenantId) || !tenantIdRe.test(category)) {
+    throw new Error('Tenant and category ids may only contain [A-Za-z0-9_.-]');
+  }
+
+  const list = compileList(tenantId, category, data, 'api');
+  const next = new Map(apiLists);
+  next.set(tenantId, new Map(next.get(tenantId)).set(category, list));
+  apiLists = next;
+  rebuildMatchers([tenantId]);
+  return list;
+}
+
+/**
+ * Remove an API-set tenant list; returns false if there was none
+ */
+export function removeTenantList(tenantId: string, category: string): boolean {
+  const lists = apiLists.get(tenantId);
+  if (!lists?.has(category)) return false;
+
+  const remaining = new Map(lists);
+  remaining.delete(category);
+  const next = new Map(apiLists);
+  if (remaining.size > 0) {
+    next.set(tenantId, remaining);
+  } else {
+    next.delete(tenantId);
+  }
+  apiLists = next;
+  rebuildMatchers([tenantId]);
+  return true;
+}
+
+/**
+ * Get the effective lists for a tenant, API lists layered over directory ones
+ */
+export function getTenantLists(tenantId: string): TenantList[] {
+  const merged = new Map(directoryLists.get(tenantId));
+  for (const [category, list] of apiLists.get(tenantId) ?? []) {
+    merged.set(category, list);
+  }
+  return [...merged.values()];
+}
+
+/**
+ * Summarize all known tenants and their list sizes
+ */
+export function listTenants(): Record<
+  string,
+  Array<{ category: string; entries: number; source: TenantList['source'] }>
+> {
+  const tenants = new Set([...directoryLists.keys(), ...apiLists.keys()]);
+  const summary: ReturnType<typeof listTenants> = {};
+  for (const tenantId of tenants) {
+    summary[tenantId] = getTenantLists(tenantId).map((list) => ({
+      category: list.category,
+      entries: list.entries.length,
+      source: list.source,
+    }));
+  }
+  return summary;
+}
+
+/**
+ * Run a tenant's custom lists over text
+ */
+export function tenantWordlistFlags(text: string, tenantId: string): Flag[] {
+  return matchers.get(tenantId)?.(text) ?? [];
+}
@@ -0,0 +1,30 @@
+import type { Flag } from '../schema.js';
+import type { LinkFetcher } from '../links/index.js';
+
+export interface DetectorContext {
+  tenantId?: string;
+  language?: string; // detected language; unknown or unset runs every list
+  linkFetcher?: LinkFetcher; // used when LINK_FOLLOW_REDIRECTS is on
+}
+
+export interface Detector {
+  /**
+   * Unique id, used in DETECTORS_DISABLED / DETECTORS_ORDER and debug output
+   */
+  id: string;
+
+  /**
+   * Flag categories the detector can produce
+   */
+  categories: string[];
+
+  /**
+   * Detector version, bumped when its rules or output change
+   */
+  version: string;
+
+  /**
+   * Find flags in a text, with spans into the original text
+   */
+  detect(text: string, ctx: DetectorContext): Flag[] | Promise<Flag[]>;
+}
@@ -1,54 +1,355 @@
-import { normalizeForMatch } from '../normalize.js';
+import { z } from 'zod';
+import { isWordChar, normalizeForMatch, toOriginalSpan } from '../normalize.js';
+import { config } from '../config.js';
+import { AhoCorasick } from './ahoCorasick.js';
 import fs from 'node:fs';
 import path from 'node:path';
 import type { Flag } from '../schema.js';
 
-function loadList(name: string): string[] {
-  const p = path.join(
-    path.dirname(new URL(import.meta.url).pathname),
-    '..',
-    'resources',
-    name + '.json'
-  );
+/**
+ * How a wordlist entry may extend past its term:
+ * - exact:   "=ass"    whole token only
+ * - inflect: "bitch"   whole token plus common inflections (bitches, pissed)
+ * - stem:    "fuck*"   any continuation of the token (fucking, fuckface)
+ * A leading "*" ("*fuck*") also allows any prefix inside the token.
+ */
+export type RuleTail = 'exact' | 'inflect' | 'stem';
+
+export type Severity = 'low' | 'medium' | 'high' | 'critical';
+
+export interface WordlistRule {
+  raw: string;
+  term: string;
+  anyPrefix: boolean;
+  tail: RuleTail;
+}
+
+export interface WordlistEntry extends WordlistRule {
+  id: string;
+  weight?: number;
+  severity?: Severity;
+  locale?: string;
+  exceptions: string[]; // normalized phrases that cancel an overlapping match
+  rationale?: string;
+}
+
+const SeveritySchema = z.enum(['low', 'medium', 'high', 'critical']);
+
+const WordlistEntrySchema = z.object({
+  id: z.string().optional(),
+  term: z.string(),
+  weight: z.number().optional(),
+  severity: SeveritySchema.optional(),
+  locale: z.string().optional(),
+  exceptions: z.array(z.string()).default([]),
+  rationale: z.string().optional(),
+});
+
+// v1 lists are flat string arrays; v2 lists carry per-entry metadata
+export const WordlistFileSchema = z.union([
+  z.array(z.string()),
+  z.object({
+    version: z.literal(2),
+    defaults: z
+      .object({
+        weight: z.number().optional(),
+        severity: SeveritySchema.optional(),
+        locale: z.string().optional(),
+      })
+      .default({}),
+    entries: z.array(z.union([z.string(), WordlistEntrySchema])),
+  }),
+]);
+
+export type MatchMode = 'token' | 'substring';
+
+// Fallback weight per category for entries that do not set their own
+export const DEFAULT_LIST_WEIGHTS: Record<string, number> = {
+  profanity: 18,
+  hate: 28,
+  violence: 30,
+  sexual: 22,
+  selfharm: 40,
+};
+
+const INFLECTIONS = new Set([
+  's',
+  'es',
+  'd',
+  'ed',
+  'in',
+  'ing',
+  'er',
+  'ers',
+  'y',
+  'ies',
+]);
+
+const resourcesDir = path.join(
+  path.dirname(new URL(import.meta.url).pathname),
+  '..',
+  'resources'
+);
+
+function loadList(name: string): unknown {
+  const p = path.join(resourcesDir, name + '.json');
   const data = fs.readFileSync(p, 'utf-8');
-  return JSON.parse(data) as string[];
+  return JSON.parse(data);
 }
 
-function* findAll(
-  haystack: string,
-  needle: string
-): Generator<[number, number]> {
+/**
+ * Parse a v1 (string array) or v2 (entry objects) wordlist into entries.
+ * Entries without an explicit id get "<listName>:<term>".
+ */
+export function parseWordlist(
+  data: unknown,
+  listName: string
+): WordlistEntry[] {
+  const file = WordlistFileSchema.parse(data);
+  const defaults = Array.isArray(file) ? {} : file.defaults;
+  const items = Array.isArray(file) ? file : file.entries;
+
+  return items
+    .map((item) => {
+      const spec =
+        typeof item === 'string' ? { term: item, exceptions: [] } : item;
+      const rule = parseWordlistEntry(spec.term);
+      return {
+        ...rule,
+        id: spec.id ?? `${listName}:${rule.term}`,
+        weight: spec.weight ?? defaults.weight,
+        severity: spec.severity ?? defaults.severity,
+        locale: spec.locale ?? defaults.locale,
+        exceptions: spec.exceptions
+          .map((phrase) => normalizeForMatch(phrase).text.trim())
+          .filter(Boolean),
+        rationale: spec.rationale,
+      };
+    })
+    .filter((entry) => entry.term);
+}
+
+/**
+ * Parse a wordlist entry with its optional "=" / "*" markers. The term is
+ * run through the same normalization as the text it is matched against.
+ */
+export function parseWordlistEntry(raw: string): WordlistRule {
+  let term = raw.trim();
+  let tail: RuleTail = 'inflect';
+  let anyPrefix = false;
+
+  if (term.startsWith('=')) {
+    tail = 'exact';
+    term = term.slice(1);
+  }
+  if (term.startsWith('*')) {
+    anyPrefix = true;
+    term = term.slice(1);
+  }
+  if (term.endsWith('*')) {
+    tail = 'stem';
+    term = term.slice(0, -1);
+  }
+
+  return { raw, term: normalizeForMatch(term).text.trim(), anyPrefix, tail };
+}
+
+/**
+ * Verify a candidate occurrence of a rule's term at `start` in normalized
+ * text, returning the matched span (extended to the token end for stems
+ * and inflections) or null when token boundaries rule it out
+ */
+export function matchRuleAt(
+  text: string,
+  rule: WordlistRule,
+  start: number,
+  mode: MatchMode = 'token'
+): [number, number] | null {
+  const termEnd = start + rule.term.length;
+  if (mode === 'substring') return [start, termEnd];
+
+  let matchStart = start;
+  if (isWordChar(text[start - 1])) {
+    if (!rule.anyPrefix) return null;
+    while (isWordChar(text[matchStart - 1])) matchStart--;
+  }
+
+  let tokenEnd = termEnd;
+  while (isWordChar(text[tokenEnd])) tokenEnd++;
+  if (tokenEnd === termEnd) return [matchStart, termEnd];
+
+  switch (rule.tail) {
+    case 'exact':
+      return null;
+    case 'stem':
+      return [matchStart, tokenEnd];
+    case 'inflect': {
+      let suffix = text.slice(termEnd, tokenEnd);
+      // Allow a doubled final consonant (shit -> shitty, shitting)
+      if (suffix[0] === rule.term.at(-1) && INFLECTIONS.has(suffix.slice(1))) {
+        suffix = suffix.slice(1);
+      }
+      return INFLECTIONS.has(suffix) ? [matchStart, tokenEnd] : null;
+    }
+  }
+}
+
+function describeRule(rule: WordlistRule, mode: MatchMode): string {
+  if (mode === 'substring') return 'substring';
+  if (rule.anyPrefix || rule.tail === 'stem') return 'wildcard';
+  return rule.tail === 'exact' ? 'exact' : 'token';
+}
+
+function* findAll(haystack: string, needle: string): Generator<number> {
   let start = 0;
   while (true) {
     const idx = haystack.indexOf(needle, start);
     if (idx === -1) break;
-    yield [idx, idx + needle.length];
+    yield idx;
     start = idx + needle.length;
   }
 }
 
-export function wordlistDetector(
-  category: string,
-  listName: string,
-  weight = 20
+/**
+ * Check whether an allowed-context exception overlaps a match span
+ */
+function isExcepted(
+  text: string,
+  entry: WordlistEntry,
+  span: [number, number]
+): boolean {
+  for (const phrase of entry.exceptions) {
+    for (const idx of findAll(text, phrase)) {
+      if (idx < span[1] && idx + phrase.length > span[0]) return true;
+    }
+  }
+  return false;
+}
+
+export interface WordlistGroup {
+  category: string;
+  entries: WordlistEntry[];
+  weight?: number; // fallback for entries without their own weight
+  tenant?: string; // recorded on flags from tenant-scoped lists
+}
+
+/**
+ * Compile several lists into one Aho-Corasick automaton so every category
+ * is matched in a single pass over the normalized text. Automaton hits are
+ * candidates; each is then verified against its entry's token rules and
+ * exceptions.
+ */
+export function compileWordlists(
+  groups: WordlistGroup[],
+  mode: MatchMode = config.wordlist.matchMode
 ) {
-  const list = loadList(listName).map((s) => s.toLowerCase());
+  const automaton = new AhoCorasick(
+    groups.flatMap((group) =>
+      group.entries.map(
+        (entry) => [entry.term, { entry, group }] as [string, MatchTarget]
+      )
+    )
+  );
+
   return (text: string): Flag[] => {
     const norm = normalizeForMatch(text);
     const flags: Flag[] = [];
-    for (const phrase of list) {
-      if (!phrase.trim()) continue;
-      for (const [a, b] of findAll(norm, phrase)) {
-        flags.push({
-          source: 'rule',
-          category,
-          weight,
-          message: `Matched phrase: ${phrase}`,
-          indices: [a, b],
-          snippet: text.slice(a, b),
-        });
-      }
+    const lastEnd = new Map<WordlistEntry, number>();
+
+    for (const hit of automaton.search(norm.text)) {
+      const { entry, group } = hit.value;
+      const span = matchRuleAt(norm.text, entry, hit.start, mode);
+      // Skip repeat hits inside a token already matched by this rule
+      if (!span || span[0] < (lastEnd.get(entry) ?? -1)) continue;
+      lastEnd.set(entry, span[1]);
+      if (isExcepted(norm.text, entry, span)) continue;
+
+      const [start, end] = toOriginalSpan(norm, span[0], span[1]);
+      flags.push({
+        source: 'rule',
+        category: group.category,
+        weight: entry.weight ?? group.weight ?? 20,
+        message: `Matched phrase: ${norm.text.slice(span[0], span[1])} (rule "${entry.raw}", ${describeRule(entry, mode)} match)`,
+        indices: [start, end],
+        snippet: text.slice(start, end),
+        ruleId: entry.id,
+        severity: entry.severity,
+        rationale: entry.rationale,
+        tenant: group.tenant,
+      });
     }
     return flags;
   };
 }
+
+interface MatchTarget {
+  entry: WordlistEntry;
+  group: WordlistGroup;
+}
+
+export function createWordlistMatcher(
+  category: string,
+  entries: WordlistEntry[],
+  options: Omit<WordlistGroup, 'category' | 'entries'> & {
+    mode?: MatchMode;
+  } = {}
+) {
+  const { mode, ...group } = options;
+  return compileWordlists([{ category, entries, ...group }], mode);
+}
+
+/**
+ * Load a bundled list from src/resources, e.g. listName "en/profanity"
+ */
+export function loadBundledWordlist(
+  category: string,
+  listName: string,
+  weight = 20
+): WordlistGroup {
+  return {
+    category,
+    entries: parseWordlist(loadList(listName), listName),
+    weight,
+  };
+}
+
+/**
+ * List the locales with bundled lists (the subdirectories of src/resources)
+ */
+export function listBundledLocales(): string[] {
+  return fs
+    .readdirSync(resourcesDir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .sort();
+}
+
+/**
+ * Load every bundled list for one locale, one group per category file
+ */
+export function loadBundledLocale(locale: string): WordlistGroup[] {
+  return fs
+    .readdirSync(path.join(resourcesDir, locale))
+    .filter((file) => file.endsWith('.json'))
+    .sort()
+    .map((file) => {
+      const category = path.basename(file, '.json');
+      return loadBundledWordlist(
+        category,
+        `${locale}/${category}`,
+        DEFAULT_LIST_WEIGHTS[category]
+      );
+    });
+}
+
+export function wordlistDetector(
+  category: string,
+  listName: string,
+  weight = 20,
+  mode: MatchMode = config.wordlist.matchMode
+) {
+  return compileWordlists(
+    [loadBundledWordlist(category, listName, weight)],
+    mode
+  );
+}
@@ -6,17 +6,21 @@ import {
 import { moderateImage } from './media/image.js';
 import { moderateVideo } from './media/video.js';
 import { calculateModerationScore, generateExplanation } from './scoring.js';
+import { consolidateFlags } from './consolidate.js';
+import { applyPolicy, getPlatformPolicy } from './policy.js';
+import { applyDecisionRules } from './decisions/index.js';
 import { config } from './config.js';
-import { Media, ModerationResult, Flag } from './schema.js';
-
-// Import existing detectors
-import { linksDetector } from './detectors/links.js';
-import { piiDetector } from './detectors/pii.js';
-import { spamDetector } from './detectors/spam.js';
-import { runAllDetectors } from './detectors/index.js';
+import { detectLanguage, type LanguageDetection } from './language.js';
+import { Media, ModerationResult, Flag, RedactionStyle } from './schema.js';
+import { redactPII } from './pii/index.js';
+import type { LinkFetcher } from './links/index.js';
+import { runDetectors } from './detectors/index.js';
 
 export interface ExtendedModerationOptions {
   platform?: 'generic' | 'x' | 'instagram' | 'tiktok';
+  tenantId?: string; // selects tenant-scoped custom term lists
+  redact?: RedactionStyle; // return `redactedText` with PII masked
+  linkFetcher?: LinkFetcher; // used when LINK_FOLLOW_REDIRECTS is on
   context?: {
     account?: {
       id?: string;
@@ -58,21 +62,38 @@ export async function moderateContent(
   };
 
   try {
-    // 1. Rule-based text moderation (existing detectors)
+    // 1. Identify the language so rule detectors use the matching lists
+    let language: LanguageDetection | undefined;
+    if (text && config.language.detect) {
+      const t0 = Date.now();
+      language = detectLanguage(text);
+      debug.timings.language = Date.now() - t0;
+    }
+
+    // 2. Rule-based text moderation (registered detectors)
     if (text) {
       const t0 = Date.now();
-      const ruleFlags = await runRuleBasedDetectors(text);
-      allFlags.push(...ruleFlags);
+      const ruleRun = await runDetectors(text, {
+        tenantId: options.tenantId,
+        language: language?.language,
+        linkFetcher: options.linkFetcher,
+      });
+      allFlags.push(...ruleRun.flags);
+      debug.detectors = ruleRun.timings;
       debug.timings.rule = Date.now() - t0;
     }
 
-    // 2. ML text moderation (if enabled)
+    // 3. ML text moderation (if enabled)
     if (text && config.enableLLM) {
       const t0 = Date.now();
       const mlResult = await moderateTextWithML(text);
-      debug.providers[mlResult.provider] = mlResult.enabled
-        ? 'enabled'
-        : 'disabled';
+      for (const attempt of mlResult.attempts) {
+        debug.providers[attempt.provider] =
+          attempt.status === 'ok' ? 'enabled' : 'disabled';
+      }
+      if (mlResult.attempts.length === 0) {
+        debug.providers.ml = 'disabled';
+      }
 
       if (mlResult.enabled && mlResult.flags.length > 0) {
         // Merge ML flags with rule-based flags
@@ -85,7 +106,7 @@ export async function moderateContent(
       debug.providers.ml = 'disabled';
     }
 
-    // 3. Media moderation (if provided)
+    // 4. Media moderation (if provided)
     if (media) {
       let mediaFlags: Flag[] = [];
 
@@ -110,19 +131,52 @@ export async function moderateContent(
       allFlags.push(...mediaFlags);
     }
 
-    // 4. Apply whitelist rules to reduce false positives
+    // 5. Apply whitelist rules to reduce false positives
     if (text) {
       const whitelistedFlags = applyWhitelistRules(allFlags, text);
       allFlags.length = 0;
       allFlags.push(...whitelistedFlags);
     }
 
-    // 5. Calculate final score and label
+    // 6. Merge overlapping flags so one span adds its weight once
+    if (text) {
+      const consolidated = consolidateFlags(text, allFlags);
+      allFlags.length = 0;
+      allFlags.push(...consolidated);
+    }
+
+    // 7. Calculate final score and label
     const tScore = Date.now();
-    const scoringResult = calculateModerationScore(allFlags, options.context);
+    const scoringResult = calculateModerationScore(
+      allFlags,
+      options.context,
+      options.platform
+    );
     debug.timings.score = Date.now() - tScore;
 
-    // 6. Update debug info
+    // 8. Map per-category scores onto the platform's policy actions
+    const policy = applyPolicy(
+      scoringResult.explanation,
+      getPlatformPolicy(options.platform)
+    );
+
+    // 9. Let decision rules override the label and actions
+    const decision = applyDecisionRules(
+      {
+        score: scoringResult.score,
+        label: scoringResult.label,
+        platform: options.platform || 'generic',
+        language,
+        flags: scoringResult.flags,
+        explanation: scoringResult.explanation,
+        categories: policy.categories,
+        actions: policy.actions,
+      },
+      scoringResult.features,
+      options.context
+    );
+
+    // 10. Update debug info
     debug.timings.total = Date.now() - startTime;
     if (scoringResult.debug) {
       Object.assign(debug, scoringResult.debug);
@@ -130,9 +184,18 @@ export async function moderateContent(
 
     return {
       score: scoringResult.score,
-      label: scoringResult.label,
+      label: decision.label,
       platform: options.platform || 'generic',
+      language,
       flags: scoringResult.flags,
+      redactedText:
+        text && options.redact
+          ? redactPII(text, scoringResult.flags, options.redact)
+          : undefined,
+      explanation: scoringResult.explanation,
+      categories: policy.categories,
+      actions: decision.actions,
+      overrides: decision.overrides.length > 0 ? decision.overrides : undefined,
       debug: config.debug ? debug : undefined,
     };
   } catch (error) {
@@ -151,49 +214,12 @@ export async function moderateContent(
           message: `Moderation error: ${error instanceof Error ? error.message : 'Unknown error'}`,
         },
       ],
+      actions: ['block'],
       debug: config.debug ? debug : undefined,
     };
   }
 }
 
-/**
- * Run existing rule-based detectors
- */
-async function runRuleBasedDetectors(text: string): Promise<Flag[]> {
-  const flags: Flag[] = [];
-
-  // Links detection
-  const linkFlags = linksDetector(text);
-  if (linkFlags.length > 0) {
-    flags.push(...linkFlags);
-  }
-
-  // PII detection
-  const piiFlags = piiDetector(text);
-  if (piiFlags.length > 0) {
-    flags.push(...piiFlags);
-  }
-
-  // Spam detection
-  const spamFlags = spamDetector(text);
-  if (spamFlags.length > 0) {
-    flags.push(...spamFlags);
-  }
-
-  // Wordlist detection using the unified detector
-  const wordlistFlags = runAllDetectors(text);
-  if (wordlistFlags.length > 0) {
-    flags.push(
-      ...wordlistFlags.map((flag) => ({
-        ...flag,
-        source: 'rule' as const,
-      }))
-    );
-  }
-
-  return flags;
-}
-
 /**
  * Legacy function for backward compatibility
  */
@@ -208,9 +234,21 @@ export async function moderateText(
  * Generate human-readable explanation of moderation decision
  */
 export function explainModeration(result: ModerationResult): string {
-  return generateExplanation({
+  const text = generateExplanation({
     score: result.score,
     label: result.label,
     flags: result.flags,
+    explanation: result.explanation,
+  });
+  if (!result.overrides?.length) return text;
+
+  const lines = result.overrides.map((override) => {
+    const changes = [
+      override.label && `label ${override.label.from} -> ${override.label.to}`,
+      override.actions &&
+        `actions ${override.actions.from.join(',')} -> ${override.actions.to.join(',')}`,
+    ].filter(Boolean);
+    return `• ${override.ruleId}: ${changes.join('; ') || 'no change'}`;
   });
+  return `${text}\n\nDECISION RULES:\n${lines.join('\n')}`;
 }
@@ -1,2 +1,22 @@
 export * from './types.js';
-export { moderateText } from './engine.js';
+export { moderateText, moderateContent } from './engine.js';
+export { moderateBatch } from './batch.js';
+export {
+  explainCounterfactual,
+  type Counterfactual,
+  type ThresholdDistance,
+} from './counterfactual.js';
+export {
+  registerDetector,
+  unregisterDetector,
+  listDetectors,
+  type Detector,
+  type DetectorContext,
+} from './detectors/index.js';
+export {
+  setDecisionRules,
+  reloadDecisionRules,
+  applyDecisionRules,
+  type DecisionRule,
+  type DecisionOverride,
+} from './decisions/index.js';
@@ -0,0 +1,117 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { config } from './config.js';
+
+// BCP 47 tag for "undetermined"; routes text to every bundled list
+export const UNDETERMINED_LANGUAGE = 'und';
+
+export interface LanguageDetection {
+  language: string;
+  confidence: number; // 0..1
+}
+
+interface LanguageProfile {
+  script: string;
+  stopwords?: string;
+  letters?: string;
+}
+
+interface CompiledProfile {
+  language: string;
+  scriptRe: RegExp;
+  stopwords: Set<string>;
+  letters: string;
+}
+
+function loadProfiles(): CompiledProfile[] {
+  const p = path.join(
+    path.dirname(new URL(import.meta.url).pathname),
+    'resources',
+    'languages.json'
+  );
+  const data = JSON.parse(fs.readFileSync(p, 'utf-8')) as {
+    languages: Record<string, LanguageProfile>;
+  };
+
+  return Object.entries(data.languages).map(([language, profile]) => ({
+    language,
+    scriptRe: new RegExp(`\\p{Script=${profile.script}}`, 'u'),
+    stopwords: new Set((profile.stopwords ?? '').split(' ').filter(Boolean)),
+    letters: profile.letters ?? '',
+  }));
+}
+
+const profiles = loadProfiles();
+const latinProfiles = profiles.filter((p) => p.stopwords.size > 0);
+const scriptProfiles = profiles.filter((p) => p.stopwords.size === 0);
+
+const letterRe = /\p{L}/u;
+const latinRe = /\p{Script=Latin}/u;
+const wordRe = /[\p{L}']+/gu;
+
+/**
+ * Identify the language of a text offline. Languages with their own script
+ * (Hindi, Arabic) are recognised by script share; Latin-script languages by
+ * stopword hits and distinctive letters. Returns "und" when the evidence is
+ * missing or below `minConfidence`.
+ */
+export function detectLanguage(
+  text: string,
+  minConfidence: number = config.language.minConfidence
+): LanguageDetection {
+  const undetermined = { language: UNDETERMINED_LANGUAGE, confidence: 0 };
+
+  // Count letters per script
+  let letters = 0;
+  let latin = 0;
+  const scriptCounts = new Map<CompiledProfile, number>();
+  for (const ch of text) {
+    if (!letterRe.test(ch)) continue;
+    letters++;
+    if (latinRe.test(ch)) {
+      latin++;
+      continue;
+    }
+    const profile = scriptProfiles.find((p) => p.scriptRe.test(ch));
+    if (profile) {
+      scriptCounts.set(profile, (scriptCounts.get(profile) ?? 0) + 1);
+    }
+  }
+  if (letters === 0) return undetermined;
+
+  for (const [profile, count] of scriptCounts) {
+    const share = count / letters;
+    if (share > 0.5) {
+      return share >= minConfidence
+        ? { language: profile.language, confidence: share }
+        : undetermined;
+    }
+  }
+  if (latin / letters <= 0.5) return undetermined;
+
+  // Score Latin-script languages
+  const lower = text.toLowerCase();
+  const words = lower.match(wordRe) ?? [];
+  const scores = latinProfiles.map((profile) => {
+    let score = 0;
+    for (const word of words) {
+      if (profile.stopwords.has(word)) score++;
+    }
+    for (const ch of lower) {
+      if (profile.letters.includes(ch)) score += 2;
+    }
+    return { language: profile.language, score };
+  });
+
+  const total = scores.reduce((sum, s) => sum + s.score, 0);
+  if (total === 0) return undetermined;
+
+  scores.sort((a, b) => b.score - a.score);
+  const [best, runnerUp] = scores;
+  if (runnerUp && runnerUp.score === best.score) return undetermined;
+
+  const confidence = best.score / total;
+  return confidence >= minConfidence
+    ? { language: best.language, confidence }
+    : undetermined;
+}
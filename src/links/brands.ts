@@ -0,0 +1,200 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+import { config } from '../config.js';
+import { normalizeForMatch } from '../normalize.js';
+
+export const BrandsFileSchema = z.object({
+  brands: z.array(
+    z.object({
+      name: z.string(),
+      domains: z.array(z.string()).min(1),
+      keywords: z.array(z.string()).optional(),
+    })
+  ),
+  lures: z.array(z.string()).default([]),
+});
+
+export type BrandsFile = z.infer<typeof BrandsFileSchema>;
+
+export type LookalikeTechnique =
+  | 'confusable' // homoglyph or leetspeak spelling (paypa1)
+  | 'typosquat' // small edit distance (paypall)
+  | 'combosquat' // brand plus extra words (paypal-login)
+  | 'subdomain'; // brand as a subdomain of another site
+
+export interface BrandLookalike {
+  brand: string;
+  keyword: string;
+  technique: LookalikeTechnique;
+  distance: number; // edit distance between the folded label and keyword
+  label: string; // the label or hyphenated part that imitates the brand
+}
+
+const bundledFile = path.join(
+  path.dirname(new URL(import.meta.url).pathname),
+  '..',
+  'resources',
+  'brands.json'
+);
+
+// Second-level public suffixes common enough to matter for brand checks
+const TWO_LEVEL_SUFFIXES = new Set([
+  'co.uk',
+  'org.uk',
+  'com.au',
+  'com.br',
+  'com.mx',
+  'co.jp',
+  'co.in',
+  'com.tr',
+  'co.za',
+]);
+
+let brands: BrandsFile | undefined;
+
+export function loadBrands(
+  file: string = config.phishing.brandsFile ?? bundledFile
+): BrandsFile {
+  brands = BrandsFileSchema.parse(JSON.parse(fs.readFileSync(file, 'utf-8')));
+  return brands;
+}
+
+export function getBrands(): BrandsFile {
+  return brands ?? loadBrands();
+}
+
+/**
+ * Levenshtein edit distance
+ */
+export function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(
+        prev[j] + 1,
+        curr[j - 1] + 1,
+        prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+interface HostParts {
+  labels: string[]; // without the public suffix, registrable label last
+  suffix: string;
+}
+
+function splitHost(unicodeHost: string): HostParts {
+  const labels = unicodeHost.toLowerCase().split('.');
+  const suffixLength = TWO_LEVEL_SUFFIXES.has(labels.slice(-2).join('.'))
+    ? 2
+    : 1;
+  return {
+    labels: labels.slice(0, -suffixLength),
+    suffix: labels.slice(-suffixLength).join('.'),
+  };
+}
+
+/**
+ * Official domains, plus the brand's own name under a country-code suffix
+ * (amazon.co.uk, google.de): brands hold those registrations, and listing
+ * every one would bloat brands.json
+ */
+function isOfficial(
+  host: string,
+  { labels, suffix }: HostParts,
+  domains: string[]
+): boolean {
+  if (domains.some((d) => host === d || host.endsWith(`.${d}`))) return true;
+  const countryCode =
+    /^[a-z]{2}$/.test(suffix) || TWO_LEVEL_SUFFIXES.has(suffix);
+  return (
+    countryCode &&
+    domains.some((d) => d.split('.')[0] === labels[labels.length - 1])
+  );
+}
+
+/**
+ * Fold a label to its matching skeletons (homoglyphs, leetspeak) and
+ * collapse the classic multi-letter lookalikes "rn" -> "m", "vv" -> "w".
+ * In domains "1" stands in for "l" as often as for "i", so both are tried.
+ */
+function foldLabel(label: string): string[] {
+  return [
+    ...new Set(
+      [label, label.replace(/1/g, 'l')].map((variant) =>
+        normalizeForMatch(variant).text.replace(/rn/g, 'm').replace(/vv/g, 'w')
+      )
+    ),
+  ];
+}
+
+/**
+ * Edits allowed for a typosquat. Short brand names sit one edit away from
+ * ordinary words (apple / apply, chase / chose), so they must match exactly.
+ */
+function maxDistance(keyword: string): number {
+  if (keyword.length >= 8) return 2;
+  if (keyword.length >= 6) return 1;
+  return 0;
+}
+
+/**
+ * Check whether a host imitates a protected brand without being one of
+ * its official domains
+ */
+export function matchBrandLookalike(
+  host: string,
+  unicodeHost: string = host
+): BrandLookalike | undefined {
+  const parts = splitHost(unicodeHost);
+  const { labels } = parts;
+  const registrable = labels.length - 1;
+
+  for (const brand of getBrands().brands) {
+    if (isOfficial(host, parts, brand.domains)) continue;
+    const keywords =
+      brand.keywords ?? brand.domains.map((d) => d.split('.')[0]);
+
+    for (const [index, label] of labels.entries()) {
+      const pieces = label.split(/[-_]/);
+      const candidates =
+        pieces.length > 1 ? [...pieces, pieces.join('')] : [label];
+
+      for (const candidate of candidates) {
+        for (const keyword of keywords) {
+          const [folded, distance] = foldLabel(candidate)
+            .map((f) => [f, editDistance(f, keyword)] as const)
+            .reduce((best, next) => (next[1] < best[1] ? next : best));
+          if (distance > maxDistance(keyword)) continue;
+
+          let technique: LookalikeTechnique;
+          if (folded === keyword && candidate !== keyword) {
+            technique = 'confusable';
+          } else if (distance > 0) {
+            technique = 'typosquat';
+          } else if (pieces.length > 1) {
+            technique = 'combosquat';
+          } else if (index !== registrable) {
+            technique = 'subdomain';
+          } else {
+            // Exact brand name on a generic TLD (paypal.xyz)
+            technique = 'combosquat';
+          }
+          return {
+            brand: brand.name,
+            keyword,
+            technique,
+            distance,
+            label: candidate,
+          };
+        }
+      }
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,72 @@
+import { confusableSkeleton } from '../normalize.js';
+
+export interface HostInspection {
+  punycode: boolean; // has an "xn--" label
+  mixedScript: boolean; // a label mixes scripts, e.g. Latin with Cyrillic
+  skeleton: string; // confusable skeleton of the Unicode host
+  homograph: boolean;
+}
+
+// Scripts that may legitimately appear together in one label
+const SCRIPT_GROUPS: Array<[string, RegExp]> = [
+  ['Latin', /\p{Script=Latin}/u],
+  ['Cyrillic', /\p{Script=Cyrillic}/u],
+  ['Greek', /\p{Script=Greek}/u],
+  ['Armenian', /\p{Script=Armenian}/u],
+  ['Cherokee', /\p{Script=Cherokee}/u],
+  [
+    'CJK',
+    /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Bopomofo}]/u,
+  ],
+  ['Arabic', /\p{Script=Arabic}/u],
+  ['Hebrew', /\p{Script=Hebrew}/u],
+  ['Devanagari', /\p{Script=Devanagari}/u],
+  ['Thai', /\p{Script=Thai}/u],
+];
+
+const letterRe = /\p{L}/u;
+const asciiHostRe = /^[a-z0-9.-]+$/;
+
+function scriptsOf(label: string): Set<string> {
+  const scripts = new Set<string>();
+  for (const ch of label) {
+    if (!letterRe.test(ch)) continue;
+    const group = SCRIPT_GROUPS.find(([, re]) => re.test(ch));
+    scripts.add(group?.[0] ?? 'Other');
+  }
+  return scripts;
+}
+
+/**
+ * Check an internationalized host for homograph tricks: labels that mix
+ * scripts, or non-Latin labels whose confusable skeleton is plain ASCII
+ * (Cyrillic "аррӏе" for "apple"). Latin labels with accents are fine.
+ */
+export function inspectHost(host: string, unicodeHost: string): HostInspection {
+  const punycode = host.split('.').some((l) => l.startsWith('xn--'));
+  const skeleton = confusableSkeleton(unicodeHost);
+  if (!punycode) {
+    return { punycode, mixedScript: false, skeleton, homograph: false };
+  }
+
+  let mixedScript = false;
+  let wholeScriptConfusable = false;
+  for (const label of unicodeHost.split('.')) {
+    const scripts = scriptsOf(label);
+    if (scripts.size > 1) mixedScript = true;
+    if (
+      scripts.size === 1 &&
+      !scripts.has('Latin') &&
+      asciiHostRe.test(confusableSkeleton(label))
+    ) {
+      wholeScriptConfusable = true;
+    }
+  }
+
+  return {
+    punycode,
+    mixedScript,
+    skeleton,
+    homograph: mixedScript || wholeScriptConfusable,
+  };
+}
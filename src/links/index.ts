@@ -0,0 +1,80 @@
+import { inspectHost, type HostInspection } from './idn.js';
+import { extractLinks, type ParsedLink } from './parse.js';
+import { lookupReputation, type ReputationMatch } from './reputation.js';
+import {
+  resolveRedirects,
+  type RedirectChain,
+  type RedirectOptions,
+} from './redirects.js';
+import { domainToUnicode } from 'node:url';
+
+export { extractLinks, refang, type ParsedLink } from './parse.js';
+export { inspectHost, type HostInspection } from './idn.js';
+export {
+  loadReputation,
+  lookupReputation,
+  type ReputationMatch,
+  type ReputationVerdict,
+} from './reputation.js';
+export {
+  resolveRedirects,
+  defaultLinkFetcher,
+  type LinkFetcher,
+  type RedirectChain,
+  type RedirectOptions,
+} from './redirects.js';
+
+export interface HostVerdict extends HostInspection {
+  host: string;
+  unicodeHost: string;
+  reputation?: ReputationMatch;
+}
+
+export interface LinkAnalysis {
+  link: ParsedLink;
+  target: HostVerdict;
+  redirect?: RedirectChain; // set once a shortened link has been followed
+  landing?: HostVerdict; // where the redirect chain ended
+}
+
+/**
+ * Judge a host by reputation and IDN/homograph checks
+ */
+export function judgeHost(host: string, unicodeHost?: string): HostVerdict {
+  const display = unicodeHost ?? (domainToUnicode(host) || host);
+  return {
+    host,
+    unicodeHost: display,
+    reputation: lookupReputation(host),
+    ...inspectHost(host, display),
+  };
+}
+
+/**
+ * Parse and judge every link in text, without any network access
+ */
+export function analyzeLinks(text: string): LinkAnalysis[] {
+  return extractLinks(text).map((link) => ({
+    link,
+    target: judgeHost(link.host, link.unicodeHost),
+  }));
+}
+
+/**
+ * Follow shortened links so they can be judged by where they land
+ */
+export async function followShortenedLinks(
+  analyses: LinkAnalysis[],
+  options: RedirectOptions = {}
+): Promise<LinkAnalysis[]> {
+  return Promise.all(
+    analyses.map(async (analysis) => {
+      if (analysis.target.reputation?.verdict !== 'shortener') {
+        return analysis;
+      }
+      const redirect = await resolveRedirects(analysis.link.url, options);
+      const landingHost = new URL(redirect.finalUrl).hostname.toLowerCase();
+      return { ...analysis, redirect, landing: judgeHost(landingHost) };
+    })
+  );
+}
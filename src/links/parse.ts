@@ -0,0 +1,108 @@
+import { domainToUnicode } from 'node:url';
+
+export interface ParsedLink {
+  raw: string; // as written, possibly defanged
+  start: number;
+  end: number; // exclusive
+  url: string; // canonical href
+  host: string; // ASCII (punycode) hostname
+  unicodeHost: string;
+  hasScheme: boolean;
+  defanged: boolean;
+}
+
+// TLDs accepted for links written without a scheme; short words that are
+// also common English tokens ("in", "to", "it", "is") are left out
+const BARE_TLDS = new Set(
+  (
+    'com net org edu gov mil int info biz io co me ly gl gg tv ai app dev ' +
+    'xyz online site top club shop store link click live news blog cc ws ' +
+    'tk ml ga cf gq icu buzz uk de fr es pt br ru cn jp au ca nl pl ch se ' +
+    'eu mx ar cl ua kr'
+  ).split(' ')
+);
+
+const label = String.raw`[\p{L}\p{N}](?:[\p{L}\p{N}-]*[\p{L}\p{N}])?`;
+// "." plus the defanged spellings used to dodge link filters
+const dot = String.raw`(?:\.|\[\.\]|\(\.\)|\{\.\}|\[dot\]|\(dot\))`;
+const scheme = String.raw`(?:https?|hxxps?)(?::\/\/|\[:\]\/\/|\[:\/\/\])`;
+const pathChars = String.raw`[\w\-._~:/?#\[\]@!$&'()*+,;=%]`;
+
+const linkRe = new RegExp(
+  String.raw`(?<![\w@.\-])(${scheme})?(${label}(?:${dot}${label})+)(:\d{2,5})?([/?#]${pathChars}*)?`,
+  'giu'
+);
+
+const defangedDotRe = /\[\.\]|\(\.\)|\{\.\}|\[dot\]|\(dot\)/gi;
+
+/**
+ * Drop trailing punctuation that belongs to the sentence, keeping a
+ * closing bracket only when the link opened one
+ */
+function trimTrailing(raw: string): string {
+  let end = raw.length;
+  while (end > 0) {
+    const ch = raw[end - 1];
+    if ('.,!?;:\'"'.includes(ch)) {
+      end--;
+    } else if (ch === ')' || ch === ']') {
+      const open = ch === ')' ? '(' : '[';
+      const body = raw.slice(0, end);
+      if (body.split(open).length >= body.split(ch).length) break;
+      end--;
+    } else {
+      break;
+    }
+  }
+  return raw.slice(0, end);
+}
+
+/**
+ * Turn a possibly defanged link into a canonical URL string
+ */
+export function refang(raw: string): string {
+  return raw
+    .replace(/^hxxp/i, 'http')
+    .replace(/^(https?)(?:\[:\]\/\/|\[:\/\/\])/i, '$1://')
+    .replace(defangedDotRe, '.');
+}
+
+/**
+ * Find links in text, with or without a scheme ("www.example.com",
+ * "example[.]com", "hxxps://..."). Scheme-less links need a known TLD so
+ * "node.js" or "e.g" do not count.
+ */
+export function extractLinks(text: string): ParsedLink[] {
+  const links: ParsedLink[] = [];
+  for (const match of text.matchAll(linkRe)) {
+    const raw = trimTrailing(match[0]);
+    const hasScheme = match[1] !== undefined;
+    const canonical = refang(raw);
+    const defanged = canonical !== raw;
+
+    let url: URL;
+    try {
+      url = new URL(hasScheme ? canonical : `http://${canonical}`);
+    } catch {
+      continue;
+    }
+
+    const host = url.hostname.toLowerCase();
+    const tld = host.split('.').at(-1) ?? '';
+    if (!hasScheme && !BARE_TLDS.has(tld) && !tld.startsWith('xn--')) {
+      continue;
+    }
+
+    links.push({
+      raw,
+      start: match.index,
+      end: match.index + raw.length,
+      url: url.href,
+      host,
+      unicodeHost: domainToUnicode(host) || host,
+      hasScheme,
+      defanged,
+    });
+  }
+  return links;
+}
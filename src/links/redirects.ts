@@ -0,0 +1,230 @@
+import dns from 'node:dns';
+import http from 'node:http';
+import https from 'node:https';
+import net, { type LookupFunction } from 'node:net';
+import { clearTimeout, setTimeout } from 'node:timers';
+import { config } from '../config.js';
+
+export interface FetchedHop {
+  status: number;
+  location?: string | null;
+}
+
+/**
+ * Fetch one URL without following redirects. Injectable so tests and
+ * callers with their own HTTP stack (proxies, caches) can supply it.
+ * `signal` aborts when the hop times out.
+ */
+export type LinkFetcher = (
+  url: string,
+  signal?: AbortSignal
+) => Promise<FetchedHop>;
+
+export interface RedirectChain {
+  hops: string[]; // every URL visited, starting with the original
+  finalUrl: string;
+  complete: boolean; // false when the hop limit, a loop or an error cut it short
+  error?: string;
+}
+
+export interface RedirectOptions {
+  fetcher?: LinkFetcher;
+  maxHops?: number;
+  timeoutMs?: number;
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local, CGNAT,
+ * multicast or otherwise not a public internet host
+ */
+function isInternalAddress(address: string): boolean {
+  // IPv4-mapped IPv6, dotted or as URL parsing writes it (::ffff:a00:1)
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return isInternalAddress(mapped[1]);
+  const mappedHex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i.exec(address);
+  if (mappedHex) {
+    const [high, low] = [mappedHex[1], mappedHex[2]].map((h) =>
+      parseInt(h, 16)
+    );
+    return isInternalAddress(
+      [high >> 8, high & 255, low >> 8, low & 255].join('.')
+    );
+  }
+
+  if (net.isIPv4(address)) {
+    const [a, b] = address.split('.').map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168)
+    );
+  }
+  if (net.isIPv6(address)) {
+    const lower = address.toLowerCase();
+    return (
+      lower === '::' ||
+      lower === '::1' ||
+      /^f[cd]/.test(lower) || // unique local fc00::/7
+      /^fe[89ab]/.test(lower) || // link-local fe80::/10
+      /^ff/.test(lower) // multicast
+    );
+  }
+  return false;
+}
+
+/**
+ * Why a URL must not be fetched, if it must not: only public http(s)
+ * hosts are followed, so posted links cannot probe internal services
+ */
+function refuseReason(url: URL): string | undefined {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return `Refused ${url.protocol} URL`;
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (
+    host === 'localhost' ||
+    host.endsWith('.localhost') ||
+    isInternalAddress(host)
+  ) {
+    return `Refused internal host ${host}`;
+  }
+  return undefined;
+}
+
+/**
+ * DNS lookup for outgoing link requests that fails when any address of the
+ * host is internal. It runs as the socket's own lookup, so the address that
+ * was checked is the one connected to; a host that re-resolves to a
+ * private address after a check (DNS rebinding) never gets through.
+ */
+const guardedLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+    if (addresses.some(({ address }) => isInternalAddress(address))) {
+      callback(new Error(`Refused internal host ${hostname}`), '');
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * Default fetcher: a HEAD request with manual redirect handling, refusing
+ * hosts that resolve to internal addresses
+ */
+export const defaultLinkFetcher: LinkFetcher = (url, signal) =>
+  new Promise((resolve, reject) => {
+    const client = new URL(url).protocol === 'https:' ? https : http;
+    const request = client.request(
+      url,
+      { method: 'HEAD', lookup: guardedLookup, signal },
+      (response) => {
+        response.resume();
+        resolve({
+          status: response.statusCode ?? 0,
+          location: response.headers.location ?? null,
+        });
+      }
+    );
+    request.on('error', reject);
+    request.end();
+  });
+
+async function fetchWithTimeout(
+  fetcher: LinkFetcher,
+  url: string,
+  timeoutMs: number
+): Promise<FetchedHop> {
+  // Aborting stops the request itself, not just our wait for it
+  const controller = new globalThis.AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`Timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+    timer.unref();
+  });
+  try {
+    return await Promise.race([fetcher(url, controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Follow a redirect chain hop by hop up to `maxHops`
+ */
+export async function resolveRedirects(
+  url: string,
+  options: RedirectOptions = {}
+): Promise<RedirectChain> {
+  const fetcher = options.fetcher ?? defaultLinkFetcher;
+  const maxHops = options.maxHops ?? config.links.maxHops;
+  const timeoutMs = options.timeoutMs ?? config.links.timeoutMs;
+  const hops = [url];
+
+  for (let hop = 0; hop < maxHops; hop++) {
+    const current = hops[hops.length - 1];
+    const refused = refuseReason(new URL(current));
+    if (refused) {
+      return { hops, finalUrl: current, complete: false, error: refused };
+    }
+
+    let response: FetchedHop;
+    try {
+      response = await fetchWithTimeout(fetcher, current, timeoutMs);
+    } catch (error) {
+      return {
+        hops,
+        finalUrl: current,
+        complete: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    if (response.status < 300 || response.status >= 400 || !response.location) {
+      return { hops, finalUrl: current, complete: true };
+    }
+
+    let next: string;
+    try {
+      next = new URL(response.location, current).href;
+    } catch {
+      return {
+        hops,
+        finalUrl: current,
+        complete: false,
+        error: `Invalid redirect location ${response.location}`,
+      };
+    }
+    if (hops.includes(next)) {
+      return {
+        hops,
+        finalUrl: current,
+        complete: false,
+        error: 'Redirect loop',
+      };
+    }
+    hops.push(next);
+  }
+
+  return {
+    hops,
+    finalUrl: hops[hops.length - 1],
+    complete: false,
+    error: `Stopped after ${maxHops} hops`,
+  };
+}
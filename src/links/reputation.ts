@@ -0,0 +1,65 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+import { config } from '../config.js';
+
+export type ReputationVerdict = 'allow' | 'deny' | 'shortener';
+
+export interface ReputationMatch {
+  verdict: ReputationVerdict;
+  domain: string; // the list entry that matched
+}
+
+export const ReputationFileSchema = z.object({
+  allow: z.array(z.string()).default([]),
+  deny: z.array(z.string()).default([]),
+  shorteners: z.array(z.string()).default([]),
+});
+
+const bundledFile = path.join(
+  path.dirname(new URL(import.meta.url).pathname),
+  '..',
+  'resources',
+  'domain-reputation.json'
+);
+
+let table: Map<string, ReputationVerdict> | undefined;
+
+/**
+ * Load a reputation file into a domain -> verdict table. Deny wins when a
+ * domain is listed twice.
+ */
+export function loadReputation(
+  file: string = config.links.reputationFile ?? bundledFile
+): Map<string, ReputationVerdict> {
+  const data = ReputationFileSchema.parse(
+    JSON.parse(fs.readFileSync(file, 'utf-8'))
+  );
+  const next = new Map<string, ReputationVerdict>();
+  for (const [verdict, domains] of [
+    ['allow', data.allow],
+    ['shortener', data.shorteners],
+    ['deny', data.deny],
+  ] as const) {
+    for (const domain of domains) {
+      next.set(domain.trim().toLowerCase().replace(/^\.+/, ''), verdict);
+    }
+  }
+  table = next;
+  return next;
+}
+
+/**
+ * Look a host up by suffix: "login.evil.com" matches an "evil.com" entry.
+ * The most specific (longest) matching entry wins.
+ */
+export function lookupReputation(host: string): ReputationMatch | undefined {
+  const reputation = table ?? loadReputation();
+  const labels = host.toLowerCase().replace(/\.$/, '').split('.');
+  for (let i = 0; i < labels.length; i++) {
+    const domain = labels.slice(i).join('.');
+    const verdict = reputation.get(domain);
+    if (verdict) return { verdict, domain };
+  }
+  return undefined;
+}
@@ -1,5 +1,5 @@
-const FULLWIDTH_START = 0xff01;
-const FULLWIDTH_END = 0xff5e;
+import fs from 'node:fs';
+import path from 'node:path';
 
 const leetMap: Record<string, string> = {
   '0': 'o',
@@ -14,26 +14,223 @@ const leetMap: Record<string, string> = {
   '|': 'l',
 };
 
-export function normalizeForMatch(input: string): string {
-  // Convert fullwidth ASCII to normal ASCII
-  let s = Array.from(input)
-    .map((ch) => {
-      const code = ch.codePointAt(0)!;
-      if (code >= FULLWIDTH_START && code <= FULLWIDTH_END) {
-        return String.fromCodePoint(code - 0xfee0);
+// Leet symbols that never end a sentence, so a symbol run holding one is
+// part of a word ("a$$hole", "@$$") rather than trailing punctuation
+const wordlikeSymbols = new Set(['$', '@']);
+
+const zeroWidthRe = /[\u00AD\u200B-\u200F\u2060-\u2064\uFEFF]/;
+const whitespaceRe = /\s/;
+// Combining marks count as word characters so Devanagari vowel signs and
+// Arabic harakat do not split a token
+const wordCharRe = /[\p{L}\p{N}\p{M}]/u;
+// Diacritic-only combining blocks; other combining marks (e.g. Indic vowel
+// signs) carry meaning and are kept
+const DIACRITIC_RANGES: Array<[number, number]> = [
+  [0x0300, 0x036f],
+  [0x1ab0, 0x1aff],
+  [0x1dc0, 0x1dff],
+  [0x20d0, 0x20ff],
+  [0xfe20, 0xfe2f],
+];
+// Three or more single letters split by one repeated separator
+const spacedLettersRe =
+  /(?<![\p{L}\p{N}])[\p{L}\p{N}]([ .\-_*\u00B7\u2022])[\p{L}\p{N}](?:\1[\p{L}\p{N}])+(?![\p{L}\p{N}])/gu;
+const spacerRe = /[ .\-_*\u00B7\u2022]/;
+
+interface ConfusablesFile {
+  mappings: Record<string, string>;
+  ranges: Array<{ from: string; to: string; base: string }>;
+}
+
+function loadConfusables(): ConfusablesFile {
+  const p = path.join(
+    path.dirname(new URL(import.meta.url).pathname),
+    'resources',
+    'confusables.json'
+  );
+  return JSON.parse(fs.readFileSync(p, 'utf-8')) as ConfusablesFile;
+}
+
+const confusables = loadConfusables();
+const confusableMap = new Map<number, string>(
+  Object.entries(confusables.mappings).map(([hex, skeleton]) => [
+    parseInt(hex, 16),
+    skeleton,
+  ])
+);
+const confusableRanges = confusables.ranges.map((range) => ({
+  from: parseInt(range.from, 16),
+  to: parseInt(range.to, 16),
+  base: range.base.codePointAt(0)!,
+}));
+
+/**
+ * Whether a character belongs to a word, for tokenization and for match
+ * boundaries alike
+ */
+export function isWordChar(ch: string | undefined): boolean {
+  return ch !== undefined && wordCharRe.test(ch);
+}
+
+function isLeetSymbol(ch: string | undefined): boolean {
+  return ch !== undefined && ch in leetMap && !/\d/.test(ch);
+}
+
+/**
+ * Whether the run of leet symbols around `index` holds a word-like symbol
+ */
+function inWordlikeRun(chars: string[], index: number): boolean {
+  let start = index;
+  let end = index + 1;
+  while (isLeetSymbol(chars[start - 1])) start--;
+  while (isLeetSymbol(chars[end])) end++;
+  return chars.slice(start, end).some((ch) => wordlikeSymbols.has(ch));
+}
+
+function isDiacritic(code: number): boolean {
+  return DIACRITIC_RANGES.some(([from, to]) => code >= from && code <= to);
+}
+
+function lookupConfusable(code: number): string | undefined {
+  const mapped = confusableMap.get(code);
+  if (mapped !== undefined) return mapped;
+  for (const range of confusableRanges) {
+    if (code >= range.from && code <= range.to) {
+      return String.fromCodePoint(range.base + code - range.from);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Reduce one code point to its matching skeleton: TR39 confusables first,
+ * then NFKD compatibility folding (math alphanumerics, fullwidth, circled)
+ * with diacritics stripped
+ */
+function skeletonOf(ch: string): string {
+  const direct = lookupConfusable(ch.codePointAt(0)!);
+  if (direct !== undefined) return direct;
+
+  let out = '';
+  for (const part of ch.normalize('NFKD')) {
+    const code = part.codePointAt(0)!;
+    if (isDiacritic(code)) continue;
+    out += lookupConfusable(code) ?? part;
+  }
+  return out;
+}
+
+/**
+ * Lowercased confusable skeleton of a string, without the leetspeak and
+ * de-spacing folds that normalizeForMatch adds (used for domain names)
+ */
+export function confusableSkeleton(input: string): string {
+  let out = '';
+  for (const ch of input) out += skeletonOf(ch);
+  return out.toLowerCase();
+}
+
+/**
+ * Join spaced-out single letters ("f.u.c.k", "f u c k") by dropping the
+ * separators and their offset map entries
+ */
+function collapseSpacedLetters(normalized: NormalizedText): NormalizedText {
+  let text = '';
+  const map: Array<[number, number]> = [];
+  let last = 0;
+
+  for (const match of normalized.text.matchAll(spacedLettersRe)) {
+    const start = match.index;
+    const end = start + match[0].length;
+    text += normalized.text.slice(last, start);
+    map.push(...normalized.map.slice(last, start));
+    for (let i = start; i < end; i++) {
+      if (spacerRe.test(normalized.text[i])) continue;
+      text += normalized.text[i];
+      map.push(normalized.map[i]);
+    }
+    last = end;
+  }
+  if (last === 0) return normalized;
+
+  text += normalized.text.slice(last);
+  map.push(...normalized.map.slice(last));
+  return { text, map };
+}
+
+export interface NormalizedText {
+  text: string;
+  // For each UTF-16 unit of `text`, the [start, end) span it came from in
+  // the original input
+  map: Array<[number, number]>;
+}
+
+/**
+ * Normalize text for wordlist matching, keeping an offset map so matches
+ * in the normalized text can be reported against the original string
+ */
+export function normalizeForMatch(input: string): NormalizedText {
+  let text = '';
+  const map: Array<[number, number]> = [];
+  let offset = 0;
+  let lastWasSpace = false;
+
+  const chars = Array.from(input);
+  for (let index = 0; index < chars.length; index++) {
+    const ch = chars[index];
+    const start = offset;
+    offset += ch.length;
+
+    // Remove zero-width and other invisible formatting characters
+    if (zeroWidthRe.test(ch)) continue;
+
+    // Collapse whitespace runs to a single space
+    if (whitespaceRe.test(ch)) {
+      if (lastWasSpace) {
+        map[map.length - 1][1] = offset;
+        continue;
       }
-      return ch;
-    })
-    .join('');
+      text += ' ';
+      map.push([start, offset]);
+      lastWasSpace = true;
+      continue;
+    }
+    lastWasSpace = false;
 
-  // Lowercase
-  s = s.toLowerCase();
+    // Fold homoglyphs and compatibility forms, then lowercase (may change
+    // length, e.g. U+0130) and fold leetspeak. Symbols only fold before a
+    // word character ("sh!t") or in a run with "$" or "@" ("a$$hole"), so
+    // trailing punctuation ("damn!") does not glue onto the preceding token.
+    let folded = skeletonOf(ch).toLowerCase();
+    if (
+      folded in leetMap &&
+      (/\d/.test(folded) ||
+        isWordChar(chars[index + 1]) ||
+        inWordlikeRun(chars, index))
+    ) {
+      folded = leetMap[folded];
+    }
 
-  // Fold common leetspeak
-  s = s.replace(/[013457$@!|]/g, (m) => leetMap[m] ?? m);
+    for (let i = 0; i < folded.length; i++) {
+      text += folded[i];
+      map.push([start, offset]);
+    }
+  }
 
-  // Remove zero-width and repeated spaces
-  s = s.replace(/[\u200B-\u200D\uFEFF]/g, '').replace(/\s+/g, ' ');
+  return collapseSpacedLetters({ text, map });
+}
 
-  return s;
+/**
+ * Map a [start, end) span in normalized text back to the original string
+ */
+export function toOriginalSpan(
+  normalized: NormalizedText,
+  start: number,
+  end: number
+): [number, number] {
+  if (end <= start) {
+    const at = normalized.map[start]?.[0] ?? normalized.map.at(-1)?.[1] ?? 0;
+    return [at, at];
+  }
+  return [normalized.map[start][0], normalized.map[end - 1][1]];
 }
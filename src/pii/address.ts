@@ -0,0 +1,55 @@
+import type { PiiMatch } from './types.js';
+
+const STREET_SUFFIXES = [
+  'Street',
+  'St',
+  'Avenue',
+  'Ave',
+  'Road',
+  'Rd',
+  'Boulevard',
+  'Blvd',
+  'Lane',
+  'Ln',
+  'Drive',
+  'Dr',
+  'Court',
+  'Ct',
+  'Place',
+  'Pl',
+  'Terrace',
+  'Parkway',
+  'Pkwy',
+  'Circle',
+  'Cir',
+  'Highway',
+  'Hwy',
+  'Way',
+];
+
+const streetName = String.raw`(?:\d+(?:st|nd|rd|th)|[A-Z][a-z]+)`;
+const unit = String.raw`(?:,?\s+(?:Apt|Suite|Ste|Unit|#)\.?\s*[\w-]+)`;
+const cityStateZip = String.raw`(?:,\s*[A-Z][a-z]+(?:\s[A-Z][a-z]+)*,?\s+[A-Z]{2}\s+\d{5}(?:-\d{4})?)`;
+
+// House number, capitalised street name and a street suffix, with an
+// optional unit and "City, ST 12345" tail
+const addressRe = new RegExp(
+  String.raw`\b\d{1,6}\s+(?:[NSEW]\.?\s+)?(?:${streetName}\s+){1,4}(?:${STREET_SUFFIXES.join('|')})\b\.?${unit}?${cityStateZip}?`,
+  'g'
+);
+
+/**
+ * Find US-style street addresses
+ */
+export function findStreetAddresses(text: string): PiiMatch[] {
+  const matches: PiiMatch[] = [];
+  for (const match of text.matchAll(addressRe)) {
+    matches.push({
+      type: 'address',
+      start: match.index,
+      end: match.index + match[0].length,
+      value: match[0],
+    });
+  }
+  return matches;
+}
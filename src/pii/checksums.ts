@@ -0,0 +1,114 @@
+import { createHash } from 'node:crypto';
+
+/**
+ * Luhn (mod 10) check used by payment card numbers
+ */
+export function luhnCheck(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = digits.charCodeAt(digits.length - 1 - i) - 48;
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * ISO 13616 IBAN check: move the first four characters to the end, map
+ * letters to 10..35 and require the result mod 97 to be 1
+ */
+export function ibanChecksum(iban: string): boolean {
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const ch of rearranged) {
+    const code = ch.charCodeAt(0);
+    const value = code >= 65 ? String(code - 55) : ch;
+    for (const digit of value) {
+      remainder = (remainder * 10 + (digit.charCodeAt(0) - 48)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+const BASE58 = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+function sha256(data: Buffer): Buffer {
+  return createHash('sha256').update(data).digest();
+}
+
+/**
+ * Decode a Base58Check string and verify its double-SHA256 checksum.
+ * Returns the version byte, or null when the checksum fails.
+ */
+export function base58CheckVersion(value: string): number | null {
+  let num = 0n;
+  for (const ch of value) {
+    const index = BASE58.indexOf(ch);
+    if (index === -1) return null;
+    num = num * 58n + BigInt(index);
+  }
+
+  const bytes: number[] = [];
+  while (num > 0n) {
+    bytes.unshift(Number(num % 256n));
+    num /= 256n;
+  }
+  for (const ch of value) {
+    if (ch !== '1') break;
+    bytes.unshift(0);
+  }
+  if (bytes.length < 5) return null;
+
+  const payload = Buffer.from(bytes.slice(0, -4));
+  const checksum = sha256(sha256(payload)).subarray(0, 4);
+  return checksum.equals(Buffer.from(bytes.slice(-4))) ? payload[0] : null;
+}
+
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const BECH32_CONST = 1;
+const BECH32M_CONST = 0x2bc830a3;
+
+function bech32Polymod(values: number[]): number {
+  const generators = [
+    0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3,
+  ];
+  let chk = 1;
+  for (const value of values) {
+    const top = chk >>> 25;
+    chk = ((chk & 0x1ffffff) << 5) ^ value;
+    for (let i = 0; i < 5; i++) {
+      if ((top >>> i) & 1) chk ^= generators[i];
+    }
+  }
+  return chk >>> 0;
+}
+
+/**
+ * Verify a bech32 (BIP 173) or bech32m (BIP 350) string's checksum
+ */
+export function bech32Check(value: string): boolean {
+  const lower = value.toLowerCase();
+  if (lower !== value && value.toUpperCase() !== value) return false;
+
+  const separator = lower.lastIndexOf('1');
+  if (separator < 1 || separator + 7 > lower.length) return false;
+
+  const hrp = lower.slice(0, separator);
+  const data: number[] = [];
+  for (const ch of lower.slice(separator + 1)) {
+    const index = BECH32_CHARSET.indexOf(ch);
+    if (index === -1) return false;
+    data.push(index);
+  }
+
+  const expanded = [
+    ...[...hrp].map((ch) => ch.charCodeAt(0) >> 5),
+    0,
+    ...[...hrp].map((ch) => ch.charCodeAt(0) & 31),
+  ];
+  const polymod = bech32Polymod([...expanded, ...data]);
+  return polymod === BECH32_CONST || polymod === BECH32M_CONST;
+}
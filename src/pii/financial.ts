@@ -0,0 +1,164 @@
+import { ibanChecksum, luhnCheck } from './checksums.js';
+import type { PiiMatch } from './types.js';
+
+interface CardBrand {
+  name: string;
+  prefixes: Array<string | [number, number]>; // IIN prefixes or ranges
+  lengths: number[];
+}
+
+const CARD_BRANDS: CardBrand[] = [
+  { name: 'Visa', prefixes: ['4'], lengths: [13, 16, 19] },
+  {
+    name: 'Mastercard',
+    prefixes: [
+      [51, 55],
+      [2221, 2720],
+    ],
+    lengths: [16],
+  },
+  { name: 'American Express', prefixes: ['34', '37'], lengths: [15] },
+  {
+    name: 'Discover',
+    prefixes: ['6011', '65', [644, 649]],
+    lengths: [16, 17, 18, 19],
+  },
+  { name: 'JCB', prefixes: [[3528, 3589]], lengths: [16, 17, 18, 19] },
+  {
+    name: 'Diners Club',
+    prefixes: ['36', '38', '39', [300, 305]],
+    lengths: [14, 15, 16, 17, 18, 19],
+  },
+  { name: 'UnionPay', prefixes: ['62'], lengths: [16, 17, 18, 19] },
+  {
+    name: 'Maestro',
+    prefixes: ['50', [56, 58], '6304', '6759', '6761', '6763'],
+    lengths: [12, 13, 14, 15, 16, 17, 18, 19],
+  },
+];
+
+function matchesPrefix(
+  digits: string,
+  prefix: CardBrand['prefixes'][number]
+): boolean {
+  if (typeof prefix === 'string') return digits.startsWith(prefix);
+  const [low, high] = prefix;
+  const head = parseInt(digits.slice(0, String(low).length), 10);
+  return head >= low && head <= high;
+}
+
+/**
+ * Identify the card brand from the issuer identification number (IIN)
+ * prefix and length
+ */
+export function cardBrand(digits: string): string | null {
+  const brand = CARD_BRANDS.find(
+    (b) =>
+      b.lengths.includes(digits.length) &&
+      b.prefixes.some((prefix) => matchesPrefix(digits, prefix))
+  );
+  return brand?.name ?? null;
+}
+
+// 12-19 digits, optionally grouped by single spaces or dashes
+const cardCandidateRe = /(?<![\d-])\d(?:[ -]?\d){11,18}(?![\d-])/g;
+
+/**
+ * Find payment card numbers with a known IIN prefix that pass Luhn
+ */
+export function findCardNumbers(text: string): PiiMatch[] {
+  const matches: PiiMatch[] = [];
+  for (const match of text.matchAll(cardCandidateRe)) {
+    const digits = match[0].replace(/\D/g, '');
+    const brand = cardBrand(digits);
+    if (!brand || !luhnCheck(digits)) continue;
+    matches.push({
+      type: 'card',
+      start: match.index,
+      end: match.index + match[0].length,
+      value: match[0],
+      detail: brand,
+    });
+  }
+  return matches;
+}
+
+// Total IBAN length per country (ISO 13616 registry)
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24,
+  AE: 23,
+  AT: 20,
+  BE: 16,
+  BG: 22,
+  BH: 22,
+  BR: 29,
+  CH: 21,
+  CY: 28,
+  CZ: 24,
+  DE: 22,
+  DK: 18,
+  EE: 20,
+  EG: 29,
+  ES: 24,
+  FI: 18,
+  FR: 27,
+  GB: 22,
+  GR: 27,
+  HR: 21,
+  HU: 28,
+  IE: 22,
+  IL: 23,
+  IS: 26,
+  IT: 27,
+  JO: 30,
+  KW: 30,
+  LB: 28,
+  LI: 21,
+  LT: 20,
+  LU: 20,
+  LV: 21,
+  MC: 27,
+  MT: 31,
+  NL: 18,
+  NO: 15,
+  PK: 24,
+  PL: 28,
+  PT: 25,
+  QA: 29,
+  RO: 24,
+  RS: 22,
+  SA: 24,
+  SE: 24,
+  SI: 19,
+  SK: 24,
+  SM: 27,
+  TN: 24,
+  TR: 26,
+  UA: 29,
+};
+
+// Country code, check digits, then the BBAN in optional groups of four
+const ibanCandidateRe =
+  /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/gi;
+
+/**
+ * Find IBANs whose length fits their country and whose mod-97 check passes
+ */
+export function findIbans(text: string): PiiMatch[] {
+  const matches: PiiMatch[] = [];
+  for (const match of text.matchAll(ibanCandidateRe)) {
+    const iban = match[0].replace(/ /g, '').toUpperCase();
+    const country = iban.slice(0, 2);
+    if (IBAN_LENGTHS[country] !== iban.length || !ibanChecksum(iban)) {
+      continue;
+    }
+    matches.push({
+      type: 'iban',
+      start: match.index,
+      end: match.index + match[0].length,
+      value: match[0],
+      detail: country,
+    });
+  }
+  return matches;
+}
@@ -0,0 +1,88 @@
+import net from 'node:net';
+import { base58CheckVersion, bech32Check } from './checksums.js';
+import type { PiiMatch } from './types.js';
+
+function collect(
+  text: string,
+  re: RegExp,
+  type: PiiMatch['type'],
+  validate: (value: string) => string | boolean | undefined = () => true
+): PiiMatch[] {
+  const matches: PiiMatch[] = [];
+  for (const match of text.matchAll(re)) {
+    const result = validate(match[0]);
+    if (result === false || result === undefined) continue;
+    matches.push({
+      type,
+      start: match.index,
+      end: match.index + match[0].length,
+      value: match[0],
+      detail: typeof result === 'string' ? result : undefined,
+    });
+  }
+  return matches;
+}
+
+const emailRe = /\b[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}\b/gi;
+
+export function findEmails(text: string): PiiMatch[] {
+  return collect(text, emailRe, 'email');
+}
+
+// Area 000, 666 and 9xx, group 00 and serial 0000 are never issued
+const ssnRe =
+  /(?<![\d-])(?!000|666|9\d\d)\d{3}([- ])(?!00)\d{2}\1(?!0000)\d{4}(?![\d-])/g;
+
+/**
+ * Find US Social Security numbers written in the grouped 3-2-4 form
+ */
+export function findSsns(text: string): PiiMatch[] {
+  return collect(text, ssnRe, 'ssn');
+}
+
+// Dotted quads right after "version"/"ver."/"v" are version numbers
+const ipv4Re =
+  /(?<![\w.])(?<!\b(?:[Vv]ersion|[Vv]er\.?|[Vv])\s+)(?:(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(?![\w]|\.\d)/g;
+const ipv6Re = /(?<![\w:])(?:[0-9a-f]{0,4}:){2,7}[0-9a-f]{0,4}(?![\w:])/gi;
+
+/**
+ * Find IPv4 and IPv6 addresses
+ */
+export function findIpAddresses(text: string): PiiMatch[] {
+  return [
+    ...collect(text, ipv4Re, 'ip', () => 'v4'),
+    // Require some hex digits so "::" or clock times do not count
+    ...collect(
+      text,
+      ipv6Re,
+      'ip',
+      (value) => /[0-9a-f]{2}/i.test(value) && net.isIPv6(value) && 'v6'
+    ),
+  ];
+}
+
+const base58AddressRe = /\b[13][1-9A-HJ-NP-Za-km-z]{25,34}\b/g;
+const bech32AddressRe = /\b(?:bc|tb)1[02-9ac-hj-np-z]{11,71}\b/gi;
+// EIP-55 mixed-case checksums need Keccak-256, which node:crypto lacks, so
+// Ethereum addresses are matched on format alone
+const ethereumAddressRe = /\b0x[0-9a-fA-F]{40}\b/g;
+
+/**
+ * Find cryptocurrency wallet addresses, verifying checksums where the
+ * encoding carries one
+ */
+export function findCryptoAddresses(text: string): PiiMatch[] {
+  return [
+    ...collect(text, base58AddressRe, 'crypto', (value) => {
+      const version = base58CheckVersion(value);
+      return version === 0x00 || version === 0x05 ? 'bitcoin' : false;
+    }),
+    ...collect(
+      text,
+      bech32AddressRe,
+      'crypto',
+      (value) => bech32Check(value) && 'bitcoin'
+    ),
+    ...collect(text, ethereumAddressRe, 'crypto', () => 'ethereum'),
+  ];
+}
@@ -0,0 +1,60 @@
+import { config } from '../config.js';
+import { findStreetAddresses } from './address.js';
+import { findCardNumbers, findIbans } from './financial.js';
+import {
+  findCryptoAddresses,
+  findEmails,
+  findIpAddresses,
+  findSsns,
+} from './identifiers.js';
+import { findPhoneNumbers } from './phone.js';
+import type { PiiMatch, PiiOptions, PiiRecognizer, PiiType } from './types.js';
+
+export type { PiiMatch, PiiOptions, PiiRecognizer, PiiType } from './types.js';
+export { validatePhoneNumber } from './phone.js';
+export { cardBrand } from './financial.js';
+export { redactPII } from './redact.js';
+
+// Recognizers in priority order: when two matches overlap, the longer one
+// wins and ties go to the earlier recognizer
+const RECOGNIZERS: Array<[PiiType, PiiRecognizer]> = [
+  ['email', findEmails],
+  ['iban', findIbans],
+  ['card', findCardNumbers],
+  ['crypto', findCryptoAddresses],
+  ['ssn', findSsns],
+  ['ip', findIpAddresses],
+  ['phone', findPhoneNumbers],
+  ['address', findStreetAddresses],
+];
+
+const priority = new Map(RECOGNIZERS.map(([type], index) => [type, index]));
+
+/**
+ * Find every PII occurrence in text, dropping matches that overlap a
+ * longer or higher-priority one
+ */
+export function findPII(
+  text: string,
+  options: Partial<PiiOptions> = {}
+): PiiMatch[] {
+  const resolved: PiiOptions = {
+    region: options.region ?? config.pii.defaultRegion,
+  };
+  const candidates = RECOGNIZERS.flatMap(([, recognize]) =>
+    recognize(text, resolved)
+  ).sort(
+    (a, b) =>
+      b.end - b.start - (a.end - a.start) ||
+      priority.get(a.type)! - priority.get(b.type)!
+  );
+
+  const accepted: PiiMatch[] = [];
+  for (const match of candidates) {
+    if (accepted.some((m) => m.start < match.end && match.start < m.end)) {
+      continue;
+    }
+    accepted.push(match);
+  }
+  return accepted.sort((a, b) => a.start - b.start);
+}
@@ -0,0 +1,143 @@
+import type { PiiMatch, PiiOptions } from './types.js';
+
+interface CountryPlan {
+  region: string;
+  code: string; // country calling code
+  lengths: [number, number]; // national significant number length range
+  trunk?: string; // national prefix dropped in international format
+  pattern?: RegExp; // stricter check on the national significant number
+}
+
+// Numbering plans for the regions we see most; lengths follow the ITU
+// national significant number ranges
+const PLANS: CountryPlan[] = [
+  {
+    region: 'US',
+    code: '1',
+    lengths: [10, 10],
+    trunk: '1',
+    pattern: /^[2-9]\d{2}[2-9]\d{6}$/,
+  },
+  { region: 'GB', code: '44', lengths: [9, 10], trunk: '0', pattern: /^[1-9]/ },
+  { region: 'DE', code: '49', lengths: [7, 11], trunk: '0', pattern: /^[1-9]/ },
+  { region: 'FR', code: '33', lengths: [9, 9], trunk: '0', pattern: /^[1-9]/ },
+  { region: 'ES', code: '34', lengths: [9, 9], pattern: /^[5-9]/ },
+  { region: 'IT', code: '39', lengths: [6, 11] },
+  { region: 'PT', code: '351', lengths: [9, 9], pattern: /^[29]/ },
+  { region: 'NL', code: '31', lengths: [9, 9], trunk: '0', pattern: /^[1-9]/ },
+  {
+    region: 'BR',
+    code: '55',
+    lengths: [10, 11],
+    trunk: '0',
+    pattern: /^[1-9]{2}/,
+  },
+  { region: 'MX', code: '52', lengths: [10, 10] },
+  {
+    region: 'IN',
+    code: '91',
+    lengths: [10, 10],
+    trunk: '0',
+    pattern: /^[1-9]/,
+  },
+  { region: 'AE', code: '971', lengths: [8, 9], trunk: '0', pattern: /^[1-9]/ },
+  { region: 'SA', code: '966', lengths: [8, 9], trunk: '0', pattern: /^[1-9]/ },
+  { region: 'EG', code: '20', lengths: [9, 10], trunk: '0', pattern: /^[1-9]/ },
+  {
+    region: 'AU',
+    code: '61',
+    lengths: [9, 9],
+    trunk: '0',
+    pattern: /^[2-478]/,
+  },
+  { region: 'JP', code: '81', lengths: [9, 10], trunk: '0', pattern: /^[1-9]/ },
+  {
+    region: 'CN',
+    code: '86',
+    lengths: [10, 11],
+    trunk: '0',
+    pattern: /^[1-9]/,
+  },
+  { region: 'RU', code: '7', lengths: [10, 10], trunk: '8', pattern: /^[3-9]/ },
+];
+
+const plansByCode = new Map(PLANS.map((plan) => [plan.code, plan]));
+const plansByRegion = new Map(PLANS.map((plan) => [plan.region, plan]));
+
+// Digit runs with phone-style separators. Amounts ($1 000 000), percentages,
+// decimals and clock times (12:00) are excluded by the surrounding-character
+// checks.
+const candidateRe =
+  /(?<![\p{L}\p{N}+$€£¥#.,/:])(?:\+|\b00)?\(?\d[\d ().-]{5,18}\d\)?(?![\p{L}\p{N}%:]|[.,]\d)/gu;
+// ISO dates (2024-01-15) are not phone numbers, even with a time after them
+const isoDateRe = /^\d{4}-\d{2}-\d{2}(?!\d)/;
+
+function isValidNational(plan: CountryPlan, nsn: string): boolean {
+  return (
+    nsn.length >= plan.lengths[0] &&
+    nsn.length <= plan.lengths[1] &&
+    (!plan.pattern || plan.pattern.test(nsn))
+  );
+}
+
+/**
+ * Resolve a digit string to the country whose numbering plan it fits.
+ * International numbers carry their calling code; national numbers are
+ * checked against the default region.
+ */
+export function validatePhoneNumber(
+  digits: string,
+  international: boolean,
+  region: string
+): string | null {
+  if (international) {
+    for (let len = 1; len <= 3; len++) {
+      const plan = plansByCode.get(digits.slice(0, len));
+      if (plan && isValidNational(plan, digits.slice(len))) {
+        return plan.region;
+      }
+    }
+    return null;
+  }
+
+  const plan = plansByRegion.get(region.toUpperCase());
+  if (!plan) return null;
+  if (isValidNational(plan, digits)) return plan.region;
+  if (plan.trunk && digits.startsWith(plan.trunk)) {
+    const nsn = digits.slice(plan.trunk.length);
+    if (isValidNational(plan, nsn)) return plan.region;
+  }
+  return null;
+}
+
+/**
+ * Find phone numbers that fit a known numbering plan
+ */
+export function findPhoneNumbers(
+  text: string,
+  options: PiiOptions
+): PiiMatch[] {
+  const matches: PiiMatch[] = [];
+  for (const match of text.matchAll(candidateRe)) {
+    let value = match[0];
+    // Trim an unbalanced trailing parenthesis picked up by the pattern
+    if (value.endsWith(')') && !value.includes('(')) value = value.slice(0, -1);
+    if (isoDateRe.test(value)) continue;
+
+    const international = value.startsWith('+') || value.startsWith('00');
+    let digits = value.replace(/\D/g, '');
+    if (value.startsWith('00')) digits = digits.slice(2);
+
+    const region = validatePhoneNumber(digits, international, options.region);
+    if (!region) continue;
+
+    matches.push({
+      type: 'phone',
+      start: match.index,
+      end: match.index + value.length,
+      value,
+      detail: region,
+    });
+  }
+  return matches;
+}
@@ -0,0 +1,77 @@
+import type { Flag, RedactionStyle } from '../schema.js';
+
+const MASK_CHAR = '*';
+const alnumRe = /[\p{L}\p{N}]/u;
+
+interface RedactionSpan {
+  start: number;
+  end: number;
+  piiType?: Flag['piiType'];
+}
+
+/**
+ * Collect PII flag spans, merging overlaps so every character is redacted
+ * at most once
+ */
+function piiSpans(flags: Flag[]): RedactionSpan[] {
+  const spans = flags
+    .filter((flag) => flag.category === 'pii' && flag.indices)
+    .map((flag) => ({
+      start: flag.indices![0],
+      end: flag.indices![1],
+      piiType: flag.piiType,
+    }))
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const merged: RedactionSpan[] = [];
+  for (const span of spans) {
+    const last = merged.at(-1);
+    if (last && span.start < last.end) {
+      last.end = Math.max(last.end, span.end);
+    } else {
+      merged.push({ ...span });
+    }
+  }
+  return merged;
+}
+
+function redactSpan(value: string, span: RedactionSpan, style: RedactionStyle) {
+  switch (style) {
+    case 'token':
+      return `[${(span.piiType ?? 'pii').toUpperCase()}]`;
+
+    case 'last4': {
+      // Keep separators and the last four letters/digits
+      const chars = Array.from(value);
+      let keep = 4;
+      for (let i = chars.length - 1; i >= 0; i--) {
+        if (!alnumRe.test(chars[i])) continue;
+        if (keep > 0) keep--;
+        else chars[i] = MASK_CHAR;
+      }
+      return chars.join('');
+    }
+
+    case 'mask':
+      return MASK_CHAR.repeat(Array.from(value).length);
+  }
+}
+
+/**
+ * Mask the PII spans flagged by piiDetector. Uses the flag indices as-is,
+ * so the redacted text always agrees with the reported flags.
+ */
+export function redactPII(
+  text: string,
+  flags: Flag[],
+  style: RedactionStyle = 'mask'
+): string {
+  let out = '';
+  let last = 0;
+  for (const span of piiSpans(flags)) {
+    out += text.slice(last, span.start);
+    out += redactSpan(text.slice(span.start, span.end), span, style);
+    last = span.end;
+  }
+  return out + text.slice(last);
+}
@@ -0,0 +1,17 @@
+import type { Flag } from '../schema.js';
+
+export type PiiType = NonNullable<Flag['piiType']>;
+
+export interface PiiMatch {
+  type: PiiType;
+  start: number;
+  end: number; // exclusive
+  value: string;
+  detail?: string; // country, card brand, coin, ...
+}
+
+export interface PiiOptions {
+  region: string; // ISO 3166 region used for numbers without a country code
+}
+
+export type PiiRecognizer = (text: string, options: PiiOptions) => PiiMatch[];
@@ -1,23 +1,80 @@
+import { config } from './config.js';
+import type { PolicyRule } from './policy.js';
+
 export type PlatformConfig = {
   weights: Partial<Record<import('./types.js').Category, number>>;
-  thresholds: { review: number; block: number };
+  // Omitted thresholds fall back to the global THRESHOLD_* configuration
+  thresholds?: Partial<{ review: number; block: number }>;
+  // Replaces the default policy rules of the categories it mentions
+  policy?: PolicyRule[];
 };
 
 export const PLATFORMS: Record<string, PlatformConfig> = {
   generic: {
     weights: {},
-    thresholds: { review: 25, block: 70 },
   },
   x: {
     weights: { links: 1.1, spam: 1.2 },
     thresholds: { review: 25, block: 70 },
+    policy: [
+      { category: 'spam', minScore: 10, action: 'limit_reach' },
+      { category: 'spam', minScore: 40, action: 'shadow_hold' },
+    ],
   },
   instagram: {
     weights: { sexual: 1.2 },
     thresholds: { review: 25, block: 65 },
+    policy: [
+      { category: 'sexual', minScore: 20, action: 'age_restrict' },
+      { category: 'sexual', minScore: 50, action: 'review' },
+      { category: 'sexual', minScore: 65, action: 'block' },
+    ],
   },
   tiktok: {
     weights: {},
     thresholds: { review: 25, block: 65 },
+    policy: [
+      { category: 'selfharm', minScore: 10, action: 'review' },
+      { category: 'selfharm', minScore: 50, action: 'block' },
+    ],
   },
 };
+
+export interface PlatformProfile {
+  name: string;
+  weights: Record<string, number>;
+  thresholds: { review: number; block: number };
+}
+
+/**
+ * Resolve the effective scoring profile for a platform, falling back to
+ * the generic profile for unknown platforms
+ */
+export function getPlatformProfile(platform = 'generic'): PlatformProfile {
+  const name = Object.hasOwn(PLATFORMS, platform) ? platform : 'generic';
+  const profile = PLATFORMS[name];
+
+  const weights: Record<string, number> = {};
+  for (const [category, weight] of Object.entries(profile.weights)) {
+    if (weight !== undefined) weights[category] = weight;
+  }
+
+  return {
+    name,
+    weights,
+    thresholds: {
+      review: profile.thresholds?.review ?? config.thresholds.review,
+      block: profile.thresholds?.block ?? config.thresholds.block,
+    },
+  };
+}
+
+/**
+ * Get the category multiplier a platform applies to a flag
+ */
+export function getPlatformWeight(
+  profile: PlatformProfile,
+  category: string
+): number {
+  return profile.weights[category] ?? 1.0;
+}
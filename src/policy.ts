@@ -0,0 +1,105 @@
+import { PLATFORMS } from './platforms.js';
+import { rescoreExplanation } from './scoring.js';
+import {
+  PolicyActionSchema,
+  type ModerationResult,
+  type PolicyAction,
+  type ScoreExplanation,
+} from './schema.js';
+
+export interface PolicyRule {
+  category: string; // "*" covers categories without rules of their own
+  minScore: number; // the action applies at this category score or above
+  action: PolicyAction;
+}
+
+// Default policy, which platform `policy` rules override per category
+export const DEFAULT_POLICY: PolicyRule[] = [
+  { category: 'pii', minScore: 8, action: 'redact' },
+  { category: 'pii', minScore: 40, action: 'review' },
+  { category: 'sexual', minScore: 30, action: 'age_restrict' },
+  { category: 'sexual', minScore: 70, action: 'block' },
+  { category: 'spam', minScore: 15, action: 'limit_reach' },
+  { category: 'spam', minScore: 50, action: 'shadow_hold' },
+  { category: 'links', minScore: 30, action: 'limit_reach' },
+  { category: 'links', minScore: 45, action: 'shadow_hold' },
+  { category: 'phishing', minScore: 30, action: 'block' },
+  { category: 'selfharm', minScore: 20, action: 'review' },
+  { category: 'drugs', minScore: 25, action: 'review' },
+  { category: 'drugs', minScore: 60, action: 'block' },
+  { category: '*', minScore: 30, action: 'review' },
+  { category: '*', minScore: 70, action: 'block' },
+];
+
+const SEVERITY = PolicyActionSchema.options;
+
+const bySeverity = (a: PolicyAction, b: PolicyAction) =>
+  SEVERITY.indexOf(a) - SEVERITY.indexOf(b);
+
+/**
+ * Resolve the policy for a platform: its own rules replace the default
+ * rules of the categories they mention
+ */
+export function getPlatformPolicy(platform = 'generic'): PolicyRule[] {
+  const overrides = Object.hasOwn(PLATFORMS, platform)
+    ? (PLATFORMS[platform].policy ?? [])
+    : [];
+  const overridden = new Set(overrides.map((rule) => rule.category));
+  return [
+    ...DEFAULT_POLICY.filter((rule) => !overridden.has(rule.category)),
+    ...overrides,
+  ];
+}
+
+/**
+ * Score each category on its own (same strategy and context multipliers as
+ * the overall score) and map the scores onto policy actions. Categories
+ * that trigger nothing are allowed. The threshold the overall score crossed
+ * is added as `review` or `block`, so the actions never fall short of the
+ * label when no single category reaches it.
+ */
+export function applyPolicy(
+  explanation: ScoreExplanation,
+  policy: PolicyRule[] = getPlatformPolicy()
+): Pick<Required<ModerationResult>, 'categories' | 'actions'> {
+  const byCategory = new Map<string, ScoreExplanation['flags']>();
+  for (const flag of explanation.flags) {
+    byCategory.set(flag.category, [
+      ...(byCategory.get(flag.category) ?? []),
+      flag,
+    ]);
+  }
+
+  const categories: NonNullable<ModerationResult['categories']> = {};
+  const actions = new Set<PolicyAction>();
+
+  for (const [category, flags] of byCategory) {
+    const score = rescoreExplanation(
+      explanation,
+      flags,
+      explanation.multipliers
+    );
+    const own = policy.filter((rule) => rule.category === category);
+    const rules =
+      own.length > 0 ? own : policy.filter((rule) => rule.category === '*');
+    const triggered = [
+      ...new Set(
+        rules.filter((rule) => score >= rule.minScore).map((r) => r.action)
+      ),
+    ].sort(bySeverity);
+
+    categories[category] = {
+      score: Math.round(score),
+      actions: triggered.length > 0 ? triggered : ['allow'],
+    };
+    for (const action of categories[category].actions) actions.add(action);
+  }
+
+  const { crossed } = explanation.threshold;
+  if (crossed !== 'none') actions.add(crossed);
+
+  // "allow" only stands when nothing else applies
+  if (actions.size > 1) actions.delete('allow');
+  if (actions.size === 0) actions.add('allow');
+  return { categories, actions: [...actions].sort(bySeverity) };
+}
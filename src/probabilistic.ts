@@ -0,0 +1,96 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+import { config } from './config.js';
+
+export type ProbabilisticModel = 'noisy-or' | 'log-odds';
+
+// Piecewise-linear curve from adjusted flag weight to probability, as
+// [weight, probability] points in ascending weight order
+const CurveSchema = z
+  .array(z.tuple([z.number(), z.number().min(0).max(1)]))
+  .min(1)
+  .refine(
+    (points) => points.every((p, i) => i === 0 || p[0] > points[i - 1][0]),
+    'Curve weights must be ascending'
+  );
+
+export const CalibrationFileSchema = z.object({
+  version: z.literal(1),
+  curves: z.record(CurveSchema).refine((curves) => 'default' in curves, {
+    message: 'A "default" curve is required',
+  }),
+});
+
+export type CalibrationFile = z.infer<typeof CalibrationFileSchema>;
+
+const bundledFile = path.join(
+  path.dirname(new URL(import.meta.url).pathname),
+  'resources',
+  'calibration.json'
+);
+
+// Keeps logits finite for probabilities of exactly 0 or 1
+const EPSILON = 1e-6;
+
+let calibration: CalibrationFile | undefined;
+
+export function loadCalibration(
+  file: string = config.scoring.calibrationFile ?? bundledFile
+): CalibrationFile {
+  calibration = CalibrationFileSchema.parse(
+    JSON.parse(fs.readFileSync(file, 'utf-8'))
+  );
+  return calibration;
+}
+
+/**
+ * Map a flag's adjusted weight to a probability through its category's
+ * curve (or the default curve), interpolating between points and holding
+ * the end values outside them
+ */
+export function calibrate(category: string, weight: number): number {
+  calibration ??= loadCalibration();
+  const curve = calibration.curves[category] ?? calibration.curves.default;
+
+  if (weight <= curve[0][0]) return curve[0][1];
+  for (let i = 1; i < curve.length; i++) {
+    const [w1, p1] = curve[i];
+    if (weight <= w1) {
+      const [w0, p0] = curve[i - 1];
+      return p0 + ((p1 - p0) * (weight - w0)) / (w1 - w0);
+    }
+  }
+  return curve[curve.length - 1][1];
+}
+
+const clamp = (p: number) => Math.min(Math.max(p, EPSILON), 1 - EPSILON);
+const logit = (p: number) => Math.log(clamp(p) / (1 - clamp(p)));
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+
+/**
+ * Combine independent flag probabilities. "noisy-or" is the chance that at
+ * least one flag is right: 1 - Π(1 - pᵢ). "log-odds" adds each flag's
+ * evidence to the prior: logit(p) = logit(prior) + Σ(logit(pᵢ) - logit(prior)).
+ */
+export function combineProbabilities(
+  probabilities: number[],
+  model: ProbabilisticModel,
+  prior: number
+): number {
+  if (model === 'noisy-or') {
+    return 1 - probabilities.reduce((rest, p) => rest * (1 - p), 1);
+  }
+  const base = logit(prior);
+  return sigmoid(probabilities.reduce((sum, p) => sum + logit(p) - base, base));
+}
+
+/**
+ * Scale a probability's odds by a context multiplier, so risk signals
+ * cannot push it past certainty and trust signals cannot push it below 0
+ */
+export function applyOddsMultiplier(p: number, multiplier: number): number {
+  if (p <= 0 || p >= 1) return p;
+  const odds = (p / (1 - p)) * multiplier;
+  return odds / (1 + odds);
+}
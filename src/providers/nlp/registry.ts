@@ -0,0 +1,50 @@
+import { config } from '../../config.js';
+import { NLPProvider } from './types.js';
+import { AnthropicProvider } from './anthropic.js';
+import { OpenAIProvider } from './openai.js';
+import { PerspectiveProvider } from './perspective.js';
+
+export type NLPProviderFactory = () => NLPProvider;
+
+const factories = new Map<string, NLPProviderFactory>([
+  ['anthropic', () => new AnthropicProvider()],
+  ['openai', () => new OpenAIProvider()],
+  ['perspective', () => new PerspectiveProvider()],
+]);
+
+/**
+ * Register (or replace) an NLP provider under a name usable in NLP_PROVIDERS
+ */
+export function registerNLPProvider(
+  name: string,
+  factory: NLPProviderFactory
+): void {
+  factories.set(name.toLowerCase(), factory);
+}
+
+/**
+ * List the names of all registered NLP providers
+ */
+export function listNLPProviders(): string[] {
+  return [...factories.keys()];
+}
+
+/**
+ * Instantiate providers in the configured order, skipping unknown names
+ */
+export function createNLPProviders(
+  names: string[] = config.nlp.providers
+): NLPProvider[] {
+  const providers: NLPProvider[] = [];
+
+  for (const name of names) {
+    const factory = factories.get(name.trim().toLowerCase());
+    if (!factory) {
+      console.warn(`Unknown NLP provider "${name}", skipping`);
+      continue;
+    }
+    providers.push(factory());
+  }
+
+  return providers;
+}
@@ -13,6 +13,36 @@ export const FlagSchema = z.object({
   mediaHash: z.string().optional(),
   provider: z.string().optional(),
   thumbPath: z.string().optional(),
+  ruleId: z.string().optional(),
+  ruleIds: z.array(z.string()).optional(), // rules merged into this flag
+  aggregate: z.boolean().optional(), // span sums up many matches; never merged
+  severity: z.enum(['low', 'medium', 'high', 'critical']).optional(),
+  rationale: z.string().optional(),
+  tenant: z.string().optional(),
+  piiType: z
+    .enum(['email', 'phone', 'card', 'iban', 'ssn', 'ip', 'crypto', 'address'])
+    .optional(),
+  link: z
+    .object({
+      url: z.string(),
+      host: z.string(),
+      unicodeHost: z.string().optional(), // when the host is an IDN
+      reputation: z.enum(['allow', 'deny', 'shortener']).optional(),
+      redirects: z.array(z.string()).optional(), // followed redirect chain
+    })
+    .optional(),
+  ensemble: z
+    .object({
+      strategy: z.string(),
+      votes: z.array(
+        z.object({
+          provider: z.string(),
+          confidence: z.number(),
+          agreed: z.boolean(),
+        })
+      ),
+    })
+    .optional(),
 });
 
 export type Flag = z.infer<typeof FlagSchema>;
@@ -58,30 +88,142 @@ export const MediaSchema = z.object({
   type: z.enum(['image', 'video']),
 });
 
+// How PII spans are masked in `redactedText`
+export const RedactionStyleSchema = z.enum(['mask', 'last4', 'token']);
+
 // Request schema
-export const ModerationRequestSchema = z
-  .object({
-    text: z.string().optional(),
-    media: MediaSchema.optional(),
-    platform: z
-      .enum(['generic', 'x', 'instagram', 'tiktok'])
-      .default('generic'),
-    context: ContextSchema.optional(),
-  })
-  .refine((data) => data.text || data.media, {
-    message: 'Either text or media must be provided',
-  });
+const ModerationRequestFields = z.object({
+  text: z.string().optional(),
+  media: MediaSchema.optional(),
+  platform: z.enum(['generic', 'x', 'instagram', 'tiktok']).default('generic'),
+  context: ContextSchema.optional(),
+  tenantId: z.string().optional(),
+  redact: RedactionStyleSchema.optional(),
+});
+
+const hasContent = (data: { text?: string; media?: unknown }) =>
+  !!(data.text || data.media);
+const missingContent = { message: 'Either text or media must be provided' };
+
+export const ModerationRequestSchema = ModerationRequestFields.refine(
+  hasContent,
+  missingContent
+);
+
+// Batch request schemas; items are validated one by one so a bad item
+// does not fail the whole batch
+export const BatchModerationItemSchema = ModerationRequestFields.extend({
+  id: z.string().min(1),
+}).refine(hasContent, missingContent);
+
+export const BatchModerationRequestSchema = z.object({
+  items: z.array(z.unknown()).min(1),
+  concurrency: z.number().int().positive().optional(),
+});
+
+// Policy actions, least to most severe
+export const PolicyActionSchema = z.enum([
+  'allow',
+  'redact',
+  'age_restrict',
+  'limit_reach',
+  'review',
+  'shadow_hold',
+  'block',
+]);
+
+// Step-by-step score arithmetic. Additive: score = round(clamp(sum of
+// contributions × each multiplier in order, 0, 100)). Probabilistic: flag
+// probabilities are combined by `model`, each multiplier scales the odds,
+// and score = round(100 × probability).
+export const ScoreExplanationSchema = z.object({
+  strategy: z.enum(['additive', 'probabilistic']),
+  model: z.enum(['noisy-or', 'log-odds']).optional(), // probabilistic only
+  prior: z.number().optional(), // log-odds only
+  flags: z.array(
+    z.object({
+      index: z.number(), // position in `flags`
+      source: z.string(),
+      category: z.string(),
+      ruleId: z.string().optional(),
+      rawWeight: z.number(),
+      sourceWeight: z.number(), // WEIGHT_<SOURCE>
+      platformWeight: z.number(), // platform category multiplier
+      contribution: z.number(), // rawWeight × sourceWeight × platformWeight
+      probability: z.number().optional(), // calibrated, probabilistic only
+    })
+  ),
+  baseScore: z.number(), // sum of contributions, or 100 × combined probability
+  multipliers: z.array(
+    z.object({
+      name: z.string(), // context feature: account, temporal, ...
+      value: z.number(),
+      scoreBefore: z.number(),
+      scoreAfter: z.number(),
+    })
+  ),
+  uncappedScore: z.number(),
+  finalScore: z.number(), // clamped to 0..100, compared with thresholds
+  score: z.number(), // finalScore rounded
+  thresholds: z.object({ review: z.number(), block: z.number() }),
+  threshold: z.object({
+    crossed: z.enum(['none', 'review', 'block']),
+    value: z.number().optional(), // the threshold that was met
+  }),
+});
 
 // Response schema
 export const ModerationResultSchema = z.object({
   score: z.number(),
   label: z.enum(['allow', 'review', 'block']),
   platform: z.string(),
+  language: z
+    .object({ language: z.string(), confidence: z.number() })
+    .optional(),
   flags: z.array(FlagSchema),
+  redactedText: z.string().optional(), // when the request asked for redaction
+  explanation: ScoreExplanationSchema.optional(), // absent on engine errors
+  categories: z
+    .record(
+      z.object({
+        score: z.number(), // 0..100, scored like the overall score
+        actions: z.array(PolicyActionSchema),
+      })
+    )
+    .optional(),
+  actions: z.array(PolicyActionSchema).optional(), // union over categories
+  overrides: z
+    .array(
+      z.object({
+        ruleId: z.string(), // the decision rule that fired
+        label: z
+          .object({
+            from: z.enum(['allow', 'review', 'block']),
+            to: z.enum(['allow', 'review', 'block']),
+          })
+          .optional(),
+        actions: z
+          .object({
+            from: z.array(PolicyActionSchema),
+            to: z.array(PolicyActionSchema),
+          })
+          .optional(),
+      })
+    )
+    .optional(),
   debug: z
     .object({
       providers: z.record(z.enum(['enabled', 'disabled'])),
       timings: z.record(z.number()),
+      detectors: z.record(z.number()).optional(), // ms per rule detector id
+      featureMultipliers: z.record(z.number()).optional(),
+      platform: z
+        .object({
+          name: z.string(),
+          weights: z.record(z.number()),
+          thresholds: z.object({ review: z.number(), block: z.number() }),
+        })
+        .optional(),
     })
     .optional(),
 });
@@ -118,7 +260,11 @@ export const VisionProviderResultSchema = ProviderResultSchema.extend({
 
 // Export types
 export type ModerationRequest = z.infer<typeof ModerationRequestSchema>;
+export type BatchModerationItem = z.input<typeof BatchModerationItemSchema>;
 export type ModerationResult = z.infer<typeof ModerationResultSchema>;
+export type ScoreExplanation = z.infer<typeof ScoreExplanationSchema>;
+export type RedactionStyle = z.infer<typeof RedactionStyleSchema>;
+export type PolicyAction = z.infer<typeof PolicyActionSchema>;
 export type ProviderResult = z.infer<typeof ProviderResultSchema>;
 export type VisionProviderResult = z.infer<typeof VisionProviderResultSchema>;
 export type Context = z.infer<typeof ContextSchema>;
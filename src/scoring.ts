@@ -1,5 +1,5 @@
 import { config } from './config.js';
-import { Flag } from './schema.js';
+import { Flag, ScoreExplanation } from './schema.js';
 import {
   analyzeAccountFeatures,
   type AccountFeatures,
@@ -17,15 +17,35 @@ import {
   type EngagementFeatures,
 } from './features/engagement.js';
 import { Context } from './schema.js';
+import {
+  applyOddsMultiplier,
+  calibrate,
+  combineProbabilities,
+} from './probabilistic.js';
+import {
+  getPlatformProfile,
+  getPlatformWeight,
+  type PlatformProfile,
+} from './platforms.js';
+
+export interface ContextFeatures {
+  account?: AccountFeatures;
+  temporal?: TemporalFeatures;
+  network?: NetworkFeatures;
+  engagement?: EngagementFeatures;
+}
 
 export interface ScoringResult {
   score: number;
   label: 'allow' | 'review' | 'block';
   flags: Flag[];
+  features: ContextFeatures; // analyzed context, empty without context
+  explanation: ScoreExplanation;
   debug?: {
     providers: Record<string, 'enabled' | 'disabled'>;
     timings: Record<string, number>;
     featureMultipliers: Record<string, number>;
+    platform: PlatformProfile;
   };
 }
 
@@ -34,67 +54,115 @@ export interface ScoringResult {
  */
 export function calculateModerationScore(
   flags: Flag[],
-  context?: Context
+  context?: Context,
+  platform = 'generic'
 ): ScoringResult {
   const startTime = Date.now();
+  const profile = getPlatformProfile(platform);
   const debug: ScoringResult['debug'] = {
     providers: {},
     timings: {},
     featureMultipliers: {},
+    platform: profile,
   };
 
-  // Apply source-specific weights
-  const weightedFlags = flags.map((flag) => ({
+  // Apply source-specific and platform category weights
+  const weightFlag = (flag: Flag) => ({
     ...flag,
-    adjustedWeight: flag.weight * (config.weights[flag.source] || 1.0),
-  }));
+    adjustedWeight:
+      flag.weight *
+      (config.weights[flag.source] || 1.0) *
+      getPlatformWeight(profile, flag.category),
+  });
+  const weightedFlags = flags.map(weightFlag);
+
+  // Explain each flag's contribution, calibrating it in probabilistic mode
+  const parts: ScoringParts = {
+    strategy: config.scoring.strategy,
+    ...(config.scoring.strategy === 'probabilistic' && {
+      model: config.scoring.model,
+      ...(config.scoring.model === 'log-odds' && {
+        prior: config.scoring.prior,
+      }),
+    }),
+  };
+  const explainedFlags: ScoreExplanation['flags'] = weightedFlags.map(
+    (flag, index) => ({
+      index,
+      source: flag.source,
+      category: flag.category,
+      ruleId: flag.ruleId,
+      rawWeight: flag.weight,
+      sourceWeight: config.weights[flag.source] || 1.0,
+      platformWeight: getPlatformWeight(profile, flag.category),
+      contribution: flag.adjustedWeight,
+      ...(parts.strategy === 'probabilistic' && {
+        probability: calibrate(flag.category, flag.adjustedWeight),
+      }),
+    })
+  );
 
   // Calculate base score from flags
-  let baseScore = 0;
-  const sourceScores: Record<string, number> = {};
-
-  for (const flag of weightedFlags) {
-    const sourceScore = flag.adjustedWeight;
-    sourceScores[flag.source] = (sourceScores[flag.source] || 0) + sourceScore;
-    baseScore += sourceScore;
-  }
+  const baseScore = baseScoreOf(parts, explainedFlags);
 
   // Apply feature multipliers if context is provided
   let finalScore = baseScore;
   let featureMultipliers: Record<string, number> = {};
+  let features: ContextFeatures = {};
+  const explainedMultipliers: ScoreExplanation['multipliers'] = [];
   const allFlags = [...weightedFlags];
 
   if (context) {
     const featureResults = analyzeContextFeatures(context);
     featureMultipliers = featureResults.multipliers;
+    features = featureResults.features;
 
     // Apply multipliers to final score
-    for (const [, multiplier] of Object.entries(featureMultipliers)) {
-      finalScore *= multiplier;
+    for (const [name, multiplier] of Object.entries(featureMultipliers)) {
+      const scoreBefore = finalScore;
+      finalScore = applyMultiplier(parts, finalScore, multiplier);
+      explainedMultipliers.push({
+        name,
+        value: multiplier,
+        scoreBefore,
+        scoreAfter: finalScore,
+      });
     }
 
-    // Add feature flags with adjustedWeight
-    allFlags.push(
-      ...featureResults.flags.map((flag) => ({
-        ...flag,
-        adjustedWeight: flag.weight * (config.weights[flag.source] || 1.0),
-      }))
-    );
+    // Add feature flags with adjustedWeight; they explain the multipliers
+    // and do not add to the score themselves
+    allFlags.push(...featureResults.flags.map(weightFlag));
   }
 
   // Cap the score
+  const uncappedScore = finalScore;
   finalScore = Math.min(Math.max(finalScore, 0), 100);
 
-  // Determine label based on thresholds
+  // Determine label based on the platform's thresholds
   let label: 'allow' | 'review' | 'block';
-  if (finalScore >= config.thresholds.block) {
+  if (finalScore >= profile.thresholds.block) {
     label = 'block';
-  } else if (finalScore >= config.thresholds.review) {
+  } else if (finalScore >= profile.thresholds.review) {
     label = 'review';
   } else {
     label = 'allow';
   }
 
+  const explanation: ScoreExplanation = {
+    ...parts,
+    flags: explainedFlags,
+    baseScore,
+    multipliers: explainedMultipliers,
+    uncappedScore,
+    finalScore,
+    score: Math.round(finalScore),
+    thresholds: { ...profile.thresholds },
+    threshold:
+      label === 'allow'
+        ? { crossed: 'none' }
+        : { crossed: label, value: profile.thresholds[label] },
+  };
+
   // Update debug info
   debug.timings.total = Date.now() - startTime;
   debug.featureMultipliers = featureMultipliers;
@@ -103,25 +171,83 @@ export function calculateModerationScore(
     score: Math.round(finalScore),
     label,
     flags: allFlags,
+    features,
+    explanation,
     debug: config.debug ? debug : undefined,
   };
 }
 
+type ScoringParts = Pick<ScoreExplanation, 'strategy' | 'model' | 'prior'>;
+
+/**
+ * Score before context multipliers: the sum of contributions, or 100 ×
+ * the combined probability of the flags
+ */
+function baseScoreOf(
+  parts: ScoringParts,
+  flags: ScoreExplanation['flags']
+): number {
+  if (parts.strategy === 'additive') {
+    return flags.reduce((sum, flag) => sum + flag.contribution, 0);
+  }
+  return (
+    100 *
+    combineProbabilities(
+      flags.map((flag) => flag.probability ?? 0),
+      parts.model ?? 'noisy-or',
+      parts.prior ?? config.scoring.prior
+    )
+  );
+}
+
+/**
+ * Apply one context multiplier: to the score itself when additive, to the
+ * odds of the probability when probabilistic
+ */
+function applyMultiplier(
+  parts: ScoringParts,
+  score: number,
+  multiplier: number
+): number {
+  return parts.strategy === 'additive'
+    ? score * multiplier
+    : 100 * applyOddsMultiplier(score / 100, multiplier);
+}
+
+/**
+ * Recompute the final (clamped, unrounded) score from a subset of an
+ * explanation's flags and multipliers, e.g. for counterfactuals
+ */
+export function rescoreExplanation(
+  explanation: ScoreExplanation,
+  flags: ScoreExplanation['flags'],
+  multipliers: ScoreExplanation['multipliers']
+): number {
+  const score = multipliers.reduce(
+    (current, m) => applyMultiplier(explanation, current, m.value),
+    baseScoreOf(explanation, flags)
+  );
+  return Math.min(Math.max(score, 0), 100);
+}
+
 /**
  * Analyze context features and return flags and multipliers
  */
 function analyzeContextFeatures(context: Context): {
   flags: Flag[];
   multipliers: Record<string, number>;
+  features: ContextFeatures;
 } {
   const flags: Flag[] = [];
   const multipliers: Record<string, number> = {};
+  const features: ContextFeatures = {};
 
   // Account features
   if (context.account) {
     const accountResult = analyzeAccountFeatures(context.account);
     flags.push(...accountResult.flags);
     multipliers.account = getAccountRiskMultiplier(accountResult.features);
+    features.account = accountResult.features;
   }
 
   // Temporal features
@@ -129,6 +255,7 @@ function analyzeContextFeatures(context: Context): {
     const temporalResult = analyzeTemporalFeatures(context.postingHistory);
     flags.push(...temporalResult.flags);
     multipliers.temporal = getTemporalRiskMultiplier(temporalResult.features);
+    features.temporal = temporalResult.features;
   }
 
   // Network features
@@ -139,6 +266,7 @@ function analyzeContextFeatures(context: Context): {
     );
     flags.push(...networkResult.flags);
     multipliers.network = getNetworkRiskMultiplier(networkResult.features);
+    features.network = networkResult.features;
   }
 
   // Engagement features
@@ -148,9 +276,10 @@ function analyzeContextFeatures(context: Context): {
     multipliers.engagement = getEngagementRiskMultiplier(
       engagementResult.features
     );
+    features.engagement = engagementResult.features;
   }
 
-  return { flags, multipliers };
+  return { flags, multipliers, features };
 }
 
 /**
@@ -224,7 +353,10 @@ function getEngagementRiskMultiplier(features: EngagementFeatures): number {
 /**
  * Generate explainable summary of moderation decision
  */
-export function generateExplanation(result: ScoringResult): string {
+export function generateExplanation(
+  result: Pick<ScoringResult, 'score' | 'label' | 'flags'> &
+    Partial<Pick<ScoringResult, 'explanation'>>
+): string {
   const { score, label, flags } = result;
 
   let explanation = `Moderation result: ${label.toUpperCase()} (Score: ${score}/100)\n\n`;
@@ -256,5 +388,41 @@ export function generateExplanation(result: ScoringResult): string {
     explanation += '\n';
   }
 
+  if (result.explanation) {
+    explanation += `SCORE:\n${describeScoreArithmetic(result.explanation)}`;
+  }
+
   return explanation.trim();
 }
+
+/**
+ * Spell out the score arithmetic, one step per line
+ */
+export function describeScoreArithmetic(explanation: ScoreExplanation): string {
+  const lines = explanation.flags.map((f) => {
+    const probability =
+      f.probability !== undefined ? ` → p = ${f.probability}` : '';
+    return `• ${f.ruleId ?? f.category}: ${f.rawWeight} × ${f.sourceWeight} (${f.source}) × ${f.platformWeight} (platform) = ${f.contribution}${probability}`;
+  });
+  lines.push(
+    explanation.strategy === 'additive'
+      ? `Base score: ${explanation.baseScore}`
+      : `Base score: ${explanation.baseScore} (100 × ${explanation.model} probability)`
+  );
+  const scaled = explanation.strategy === 'additive' ? '' : ' on the odds';
+  for (const m of explanation.multipliers) {
+    lines.push(
+      `× ${m.value}${scaled} (${m.name}): ${m.scoreBefore} → ${m.scoreAfter}`
+    );
+  }
+  lines.push(
+    `Final score: ${explanation.finalScore} (capped to 0-100, rounded to ${explanation.score})`
+  );
+  const { crossed, value } = explanation.threshold;
+  lines.push(
+    crossed === 'none'
+      ? `Below the review threshold (${explanation.thresholds.review})`
+      : `Meets the ${crossed} threshold (${value})`
+  );
+  return lines.join('\n');
+}
@@ -1,10 +1,40 @@
-import Fastify from 'fastify';
-import { ModerationRequestSchema } from './schema.js';
+import { Buffer } from 'node:buffer';
+import { timingSafeEqual } from 'node:crypto';
+import Fastify, { type FastifyReply, type FastifyRequest } from 'fastify';
+import {
+  ModerationRequestSchema,
+  BatchModerationRequestSchema,
+} from './schema.js';
 import { moderateContent } from './engine.js';
+import { moderateBatch } from './batch.js';
 import { config } from './config.js';
+import {
+  listTenants,
+  reloadTenantLists,
+  removeTenantList,
+  setTenantList,
+  watchTenantLists,
+} from './detectors/tenants.js';
+import { reloadSpamRules, watchSpamRules } from './detectors/spam.js';
+import { reloadDecisionRules, watchDecisionRules } from './decisions/index.js';
 
 const app = Fastify({ logger: false });
 
+/**
+ * Guard for endpoints that change or reveal lists and rules. They need
+ * `Authorization: Bearer <ADMIN_TOKEN>` and are off when no token is set.
+ */
+async function requireAdmin(req: FastifyRequest, reply: FastifyReply) {
+  if (!config.adminToken) {
+    return reply.code(403).send({ error: 'Admin endpoints are disabled' });
+  }
+  const expected = Buffer.from(`Bearer ${config.adminToken}`);
+  const given = Buffer.from(req.headers.authorization ?? '');
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    return reply.code(401).send({ error: 'Unauthorized' });
+  }
+}
+
 app.post('/moderate', async (req, reply) => {
   const parse = ModerationRequestSchema.safeParse(req.body);
   if (!parse.success) {
@@ -12,12 +42,14 @@ app.post('/moderate', async (req, reply) => {
     return;
   }
 
-  const { text, media, platform, context } = parse.data;
+  const { text, media, platform, context, tenantId, redact } = parse.data;
 
   try {
     const result = await moderateContent(text, media, {
       platform,
       context,
+      tenantId,
+      redact,
     });
 
     reply.send(result);
@@ -29,6 +61,114 @@ app.post('/moderate', async (req, reply) => {
   }
 });
 
+app.post('/moderate/batch', async (req, reply) => {
+  const parse = BatchModerationRequestSchema.safeParse(req.body);
+  if (!parse.success) {
+    reply.code(400).send({ error: parse.error.flatten() });
+    return;
+  }
+
+  const { items, concurrency } = parse.data;
+  if (items.length > config.batch.maxItems) {
+    reply.code(413).send({
+      error: `Batch exceeds ${config.batch.maxItems} items`,
+    });
+    return;
+  }
+
+  try {
+    const results = await moderateBatch(items, {
+      concurrency: Math.min(
+        concurrency ?? config.batch.concurrency,
+        config.batch.concurrency
+      ),
+    });
+
+    reply.send({ results });
+  } catch (error) {
+    reply.code(500).send({
+      error: 'Batch moderation failed',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// Tenant-scoped custom term lists
+app.get('/tenants', { preHandler: requireAdmin }, async () => {
+  return { tenants: listTenants() };
+});
+
+app.put<{ Params: { tenantId: string; category: string } }>(
+  '/tenants/:tenantId/lists/:category',
+  { preHandler: requireAdmin },
+  async (req, reply) => {
+    const { tenantId, category } = req.params;
+    try {
+      const list = setTenantList(tenantId, category, req.body);
+      reply.send({ tenantId, category, entries: list.entries.length });
+    } catch (error) {
+      reply.code(400).send({
+        error: 'Invalid tenant list',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+);
+
+app.delete<{ Params: { tenantId: string; category: string } }>(
+  '/tenants/:tenantId/lists/:category',
+  { preHandler: requireAdmin },
+  async (req, reply) => {
+    const { tenantId, category } = req.params;
+    if (!removeTenantList(tenantId, category)) {
+      reply.code(404).send({ error: 'Tenant list not found' });
+      return;
+    }
+    reply.code(204).send();
+  }
+);
+
+app.post(
+  '/tenants/reload',
+  { preHandler: requireAdmin },
+  async (req, reply) => {
+    try {
+      reply.send({ tenants: reloadTenantLists() });
+    } catch (error) {
+      reply.code(500).send({
+        error: 'Tenant list reload failed',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+);
+
+app.post('/spam/reload', { preHandler: requireAdmin }, async (req, reply) => {
+  try {
+    reply.send({ rules: reloadSpamRules() });
+  } catch (error) {
+    reply.code(500).send({
+      error: 'Spam rule reload failed',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+app.post(
+  '/decisions/reload',
+  { preHandler: requireAdmin },
+  async (req, reply) => {
+    try {
+      reply.send({ rules: reloadDecisionRules() });
+    } catch (error) {
+      reply.code(500).send({
+        error: 'Decision rule reload failed',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+);
+
 // Health check endpoint
 app.get('/health', async () => {
   return {
@@ -41,6 +181,26 @@ app.get('/health', async () => {
   };
 });
 
+if (config.tenants.dir) {
+  const tenants = reloadTenantLists(config.tenants.dir);
+  console.log(`Loaded tenant lists for: ${tenants.join(', ') || '(none)'}`);
+  if (config.tenants.watch) watchTenantLists(config.tenants.dir);
+}
+
+if (config.spam.rulesFile) {
+  const rules = reloadSpamRules(config.spam.rulesFile);
+  console.log(`Loaded ${rules} spam rules from ${config.spam.rulesFile}`);
+  if (config.spam.watch) watchSpamRules(config.spam.rulesFile);
+}
+
+if (config.decisions.rulesFile) {
+  const rules = reloadDecisionRules(config.decisions.rulesFile);
+  console.log(
+    `Loaded ${rules} decision rules from ${config.decisions.rulesFile}`
+  );
+  if (config.decisions.watch) watchDecisionRules(config.decisions.rulesFile);
+}
+
 const port = Number(process.env.PORT) || 8787;
 app.listen({ port, host: '0.0.0.0' }).then(() => {
   console.log(`Moderator API listening on http://localhost:${port}`);
@@ -0,0 +1,108 @@
+import { extractLinks } from './links/parse.js';
+
+export type SocialTokenType = 'hashtag' | 'mention' | 'emoji';
+
+export interface SocialToken {
+  type: SocialTokenType;
+  raw: string; // exactly as written, including "#" / "@"
+  value: string; // lowercased tag or handle; emoji without skin tone or VS16
+  start: number; // UTF-16 offsets into the original text
+  end: number;
+}
+
+const segmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+
+// A grapheme is an emoji when it starts with a pictographic character
+// (with or without VS16, since coded messages often use bare ❄ or ☠), is
+// a flag (regional indicator pair) or is a keycap (1️⃣). The legal signs
+// ©, ® and ™ are pictographic too but read as text.
+const emojiRe =
+  /^(?![©®™])\p{Extended_Pictographic}|\p{Regional_Indicator}|^[#*0-9]\p{Variation_Selector}?\p{Me}/u;
+const emojiDecorationRe = /\p{Emoji_Modifier}|\p{Variation_Selector}/gu;
+const wordRe = /^[\p{L}\p{N}_]/u;
+const letterRe = /\p{L}/u;
+
+const SIGILS: Record<string, 'hashtag' | 'mention'> = {
+  '#': 'hashtag',
+  '＃': 'hashtag',
+  '@': 'mention',
+  '＠': 'mention',
+};
+
+export function isEmoji(grapheme: string): boolean {
+  return emojiRe.test(grapheme);
+}
+
+/**
+ * Strip skin tones and variation selectors so 👍🏽 matches 👍 and ❄️ matches ❄
+ */
+export function emojiBase(emoji: string): string {
+  return emoji.replace(emojiDecorationRe, '');
+}
+
+/**
+ * Split text into hashtags, mentions and emoji. Works on grapheme clusters,
+ * so ZWJ sequences (👨‍👩‍👧), flags and skin-toned emoji are one token and
+ * combining marks stay inside the tag they belong to. A sigil only starts a
+ * tag at a word boundary, so emails and "a#b" are not tags; hashtags need
+ * at least one letter ("#1" is not a hashtag) and mentions may contain dots
+ * between word characters. Fragments and paths inside links
+ * ("x.com/#top", "x.com/@jane") are not tags.
+ */
+export function tokenizeSocial(text: string): SocialToken[] {
+  const graphemes = [...segmenter.segment(text)];
+  const tokens: SocialToken[] = [];
+  const links = extractLinks(text);
+  const inLink = (offset: number) =>
+    links.some((link) => offset >= link.start && offset < link.end);
+
+  for (let i = 0; i < graphemes.length; i++) {
+    const { segment, index } = graphemes[i];
+
+    if (isEmoji(segment)) {
+      tokens.push({
+        type: 'emoji',
+        raw: segment,
+        value: emojiBase(segment),
+        start: index,
+        end: index + segment.length,
+      });
+      continue;
+    }
+
+    const type = SIGILS[segment];
+    const prev = graphemes[i - 1]?.segment;
+    if (!type || (prev && (wordRe.test(prev) || prev in SIGILS))) continue;
+
+    let j = i + 1;
+    while (j < graphemes.length) {
+      const g = graphemes[j].segment;
+      if (wordRe.test(g)) {
+        j++;
+      } else if (
+        type === 'mention' &&
+        g === '.' &&
+        wordRe.test(graphemes[j + 1]?.segment ?? '')
+      ) {
+        j += 2;
+      } else {
+        break;
+      }
+    }
+    if (j === i + 1) continue;
+
+    const end = j < graphemes.length ? graphemes[j].index : text.length;
+    const raw = text.slice(index, end);
+    const value = raw.slice(segment.length).toLowerCase();
+    if (type === 'hashtag' && !letterRe.test(value)) continue;
+    if (inLink(index)) {
+      i = j - 1;
+      continue;
+    }
+
+    tokens.push({ type, raw, value, start: index, end });
+    i = j - 1;
+  }
+
+  return tokens;
+}
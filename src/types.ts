@@ -6,7 +6,10 @@ export type Category =
   | 'selfharm'
   | 'pii'
   | 'spam'
-  | 'links';
+  | 'links'
+  | 'phishing'
+  | 'drugs'
+  | 'weapons';
 
 export interface Flag {
   category: Category;
@@ -0,0 +1,25 @@
+import { bench, describe } from 'vitest';
+import { compileWordlists, parseWordlist } from '../src/detectors/wordlist.js';
+import { createRandomWords } from './helpers/random.js';
+
+// Seeded so runs are comparable
+const { random, word } = createRandomWords();
+
+const terms = Array.from({ length: 50_000 }, () =>
+  word(5 + Math.floor(random() * 6))
+);
+const entries = parseWordlist(terms, 'bench');
+const match = compileWordlists([{ category: 'custom', entries }]);
+const text = Array.from({ length: 40_000 }, (_, i) =>
+  i % 100 === 0 ? terms[i % terms.length] : word(2 + (i % 7))
+).join(' ');
+
+describe(`50k terms over ${(text.length / 1024).toFixed(0)}KB`, () => {
+  bench('compile', () => {
+    compileWordlists([{ category: 'custom', entries }]);
+  });
+
+  bench('search', () => {
+    match(text);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { AhoCorasick } from '../src/detectors/ahoCorasick.js';
+import { compileWordlists, parseWordlist } from '../src/detectors/wordlist.js';
+import { createRandomWords } from './helpers/random.js';
+
+describe('AhoCorasick', () => {
+  it('finds overlapping and nested patterns in one pass', () => {
+    const ac = new AhoCorasick<string>([
+      ['he', 'he'],
+      ['she', 'she'],
+      ['his', 'his'],
+      ['hers', 'hers'],
+    ]);
+    const hits = [...ac.search('ushers')].map((m) => [m.value, m.start, m.end]);
+    expect(hits).toEqual([
+      ['she', 1, 4],
+      ['he', 2, 4],
+      ['hers', 2, 6],
+    ]);
+  });
+
+  it('keeps every value registered for the same pattern', () => {
+    const ac = new AhoCorasick<number>([
+      ['kill', 1],
+      ['kill', 2],
+    ]);
+    expect([...ac.search('kill')].map((m) => m.value)).toEqual([1, 2]);
+  });
+});
+
+describe('wordlist at scale', () => {
+  const { random, word } = createRandomWords();
+
+  // Throughput lives in ahoCorasick.bench.ts (pnpm bench); wall-clock
+  // assertions are too noisy for shared CI runners
+  it('matches every planted term among 50k', () => {
+    const terms = Array.from({ length: 50_000 }, () =>
+      word(5 + Math.floor(random() * 6))
+    );
+    const match = compileWordlists([
+      { category: 'custom', entries: parseWordlist(terms, 'bench') },
+    ]);
+
+    const tokens = Array.from({ length: 40_000 }, (_, i) =>
+      i % 100 === 0 ? terms[i % terms.length] : word(2 + (i % 7))
+    );
+    const flags = match(tokens.join(' '));
+
+    // Every planted term matches; random filler rarely does
+    expect(flags.length).toBeGreaterThanOrEqual(400);
+    expect(flags.length).toBeLessThan(1_000);
+  }, 60_000);
+});
@@ -20,6 +20,30 @@ vi.mock("../src/config.js", () => ({
       vision: 0.9,
       metadata: 0.3,
     },
+    scoring: {
+      strategy: "additive",
+    },
+    wordlist: {
+      matchMode: "token",
+    },
+    language: {
+      detect: true,
+      minConfidence: 0.5,
+    },
+    pii: {
+      defaultRegion: "US",
+    },
+    links: {
+      followRedirects: false,
+      maxHops: 5,
+      timeoutMs: 3000,
+    },
+    phishing: {},
+    detectors: { order: [], disabled: [] },
+    consolidation: { strategy: "diminishing", decay: 0.5 },
+    spam: {},
+    decisions: {},
+    social: { hashtagThreshold: 30, mentionThreshold: 10, emojiThreshold: 30 },
     temporal: {
       burstHour: 10,
       burstDay: 50,
@@ -36,7 +60,18 @@ describe("moderateText", () => {
     const r = await moderateText("FREE money!!! Click https://bit.ly/abc now");
     expect(r.flags.some(f => f.category === "links")).toBe(true);
     expect(r.flags.some(f => f.category === "spam")).toBe(true);
-    expect(r.label).not.toBe("allow");
+    // Each detector runs once, so the shortener (30) and the scam phrase
+    // (18) count once each
+    expect(r.flags.map(f => f.ruleId)).toEqual(["links.shortener", "spam.scam-phrase"]);
+    expect(r.score).toBe(48);
+    expect(r.label).toBe("review");
+  });
+
+  it("blocks a shortener link with a crypto doubling scam", async () => {
+    const r = await moderateText("FREE money!!! Double your bitcoin, click https://bit.ly/abc now");
+    expect(r.flags.map(f => f.ruleId)).toContain("spam.crypto-doubling");
+    expect(r.score).toBe(73);
+    expect(r.label).toBe("block");
   });
 
   it("detects PII", async () => {
@@ -44,6 +79,14 @@ describe("moderateText", () => {
     expect(r.flags.filter(f => f.category === "pii").length).toBeGreaterThan(0);
   });
 
+  it("returns redactedText when asked", async () => {
+    const r = await moderateContent("Email me at john@example.com", undefined, {
+      redact: "token",
+    });
+    expect(r.redactedText).toBe("Email me at [EMAIL]");
+    expect((await moderateText("john@example.com")).redactedText).toBeUndefined();
+  });
+
   it("keeps benign text as allow", async () => {
     const r = await moderateText("Lovely day at the beach with friends. See you soon!");
     expect(r.label).toBe("allow");
@@ -193,9 +236,30 @@ describe("scoring and thresholds", () => {
     const lowScoreResult = await moderateText("Hello world");
     expect(lowScoreResult.label).toBe("allow");
     
-    // High score should be block
-    const highScoreResult = await moderateText("FREE money!!! Click https://bit.ly/abc now");
-    expect(highScoreResult.label).toBe("block");
+    // A shortener plus a scam phrase is held for review
+    const midScoreResult = await moderateText("FREE money!!! Click https://bit.ly/abc now");
+    expect(midScoreResult.label).toBe("review");
+  });
+});
+
+describe("decision rules", () => {
+  it("moderates normally when the rules file is missing", async () => {
+    vi.resetModules();
+    const fresh = await import("../src/config.js");
+    fresh.config.decisions.rulesFile = "/nonexistent/decision-rules.json";
+    const engine = await import("../src/engine.js");
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    try {
+      const clean = await engine.moderateContent("Lovely day at the beach");
+      expect(clean.label).toBe("allow");
+      const spam = await engine.moderateContent("FREE money!!! Click https://bit.ly/abc now");
+      expect(spam.label).toBe("review");
+      expect(spam.score).toBe(48);
+      expect(warn).toHaveBeenCalledTimes(1);
+    } finally {
+      warn.mockRestore();
+    }
   });
 });
 
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../src/config.js', () => ({
+  config: {
+    enableLLM: false,
+    enableRekognition: false,
+    enableSupabase: false,
+    debug: false,
+    thresholds: { block: 70, review: 30, duplicate: 0.15 },
+    weights: { rule: 1.0, ml: 0.8, vision: 0.9, metadata: 0.3 },
+    scoring: { strategy: 'additive' },
+    wordlist: { matchMode: 'token' },
+    language: { detect: true, minConfidence: 0.5 },
+    pii: { defaultRegion: 'US' },
+    links: { followRedirects: false, maxHops: 5, timeoutMs: 3000 },
+    phishing: {},
+    detectors: { order: [], disabled: [] },
+    consolidation: { strategy: 'diminishing', decay: 0.5 },
+    spam: {},
+    decisions: {},
+    social: { hashtagThreshold: 30, mentionThreshold: 10, emojiThreshold: 30 },
+    batch: { concurrency: 2, maxItems: 1000 },
+    temporal: { burstHour: 10, burstDay: 50 },
+    account: { newAccountDays: 7, maxViolations: 5 },
+  },
+}));
+
+import { moderateBatch, mapWithConcurrency } from '../src/batch.js';
+
+describe('mapWithConcurrency', () => {
+  it('keeps input order and bounds in-flight calls', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([30, 5, 20, 1], 2, async (ms) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      inFlight--;
+      return ms * 2;
+    });
+    expect(results).toEqual([60, 10, 40, 2]);
+    expect(peak).toBe(2);
+  });
+
+  it.each([
+    [NaN, 1],
+    [0, 1],
+    [-3, 1],
+    [2.7, 2],
+  ])('runs every item with a limit of %s', async (limit, expectedPeak) => {
+    let inFlight = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([1, 2, 3], limit, async (n) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      inFlight--;
+      return n * 2;
+    });
+    expect(results).toEqual([2, 4, 6]);
+    expect(peak).toBe(expectedPeak);
+  });
+});
+
+describe('moderateBatch', () => {
+  it('returns results and per-item errors in input order', async () => {
+    const results = await moderateBatch([
+      { id: 'a', text: 'FREE money!!! Click https://bit.ly/abc now' },
+      { id: 'b' },
+      { text: 'missing id' },
+      { id: 'c', text: 'Lovely day at the beach', platform: 'x' },
+    ]);
+
+    expect(results.map((r) => r.id)).toEqual(['a', 'b', null, 'c']);
+    expect(results.map((r) => r.ok)).toEqual([true, false, false, true]);
+
+    const [first, second, , last] = results;
+    expect(first.ok && first.result.label).toBe('review');
+    expect(first.ok && first.result.score).toBe(48);
+    expect(!second.ok && second.error).toContain(
+      'Either text or media must be provided'
+    );
+    expect(last.ok && last.result.platform).toBe('x');
+  });
+});
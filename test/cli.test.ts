@@ -0,0 +1,86 @@
+import { spawnSync } from 'node:child_process';
+import path from 'node:path';
+import { describe, it, expect } from 'vitest';
+
+const cli = path.join(__dirname, '..', 'src', 'cli.ts');
+
+/**
+ * Run `flag-post --ndjson` on the given stdin lines
+ */
+function runNdjson(lines: string[], env: Record<string, string> = {}) {
+  const run = spawnSync(
+    process.execPath,
+    ['--import', 'tsx', cli, '--ndjson'],
+    {
+      input: lines.join('\n') + '\n',
+      encoding: 'utf8',
+      env: { ...process.env, ENABLE_LLM: 'false', ...env },
+      timeout: 60_000,
+    }
+  );
+  const records = run.stdout
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => JSON.parse(line));
+  return { records, stderr: run.stderr, status: run.status };
+}
+
+describe('flag-post --ndjson', () => {
+  it('writes one record per line, keyed by line and id', () => {
+    const { records, stderr, status } = runNdjson(
+      [
+        JSON.stringify({ id: 'a', text: 'Lovely day at the beach' }),
+        '',
+        'not json',
+        JSON.stringify({ id: 'b' }),
+        JSON.stringify({ text: 'Call me at 202-555-0172', redact: 'mask' }),
+        JSON.stringify({
+          id: 'c',
+          text: 'FREE money!!! Double your bitcoin, click https://bit.ly/abc now',
+        }),
+      ],
+      // One at a time, so records come out in input order
+      { BATCH_CONCURRENCY: '1' }
+    );
+
+    expect(
+      records.map(({ line, id, ok, error, result }) => ({
+        line,
+        id,
+        ok,
+        error,
+        label: result?.label,
+      }))
+    ).toEqual([
+      { line: 1, id: 'a', ok: true, error: undefined, label: 'allow' },
+      { line: 3, id: undefined, ok: false, error: 'Invalid JSON' },
+      {
+        line: 4,
+        id: 'b',
+        ok: false,
+        error: 'Either text or media must be provided',
+      },
+      { line: 5, id: undefined, ok: true, error: undefined, label: 'allow' },
+      { line: 6, id: 'c', ok: true, error: undefined, label: 'block' },
+    ]);
+    expect(records[3].result.redactedText).not.toContain('202-555-0172');
+    expect(stderr).toContain('Summary: allow=2 review=0 block=1 errors=2');
+    expect(status).toBe(1);
+  }, 60_000);
+
+  it('exits 0 when every post is allowed', () => {
+    const posts = ['x', 'y', 'z'].map((id) =>
+      JSON.stringify({ id, text: `Post ${id} about the weather` })
+    );
+    const { records, stderr, status } = runNdjson(posts);
+
+    // Records may finish in any order; line and id tie them to the input
+    expect(records.map((r) => [r.line, r.id]).sort()).toEqual([
+      [1, 'x'],
+      [2, 'y'],
+      [3, 'z'],
+    ]);
+    expect(stderr).toContain('Summary: allow=3 review=0 block=0 errors=0');
+    expect(status).toBe(0);
+  }, 60_000);
+});
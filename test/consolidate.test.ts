@@ -0,0 +1,127 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../src/config.js', () => ({
+  config: {
+    consolidation: { strategy: 'diminishing', decay: 0.5 },
+  },
+}));
+
+import { combineWeights, consolidateFlags } from '../src/consolidate.js';
+import type { Flag } from '../src/schema.js';
+
+const text = 'you are a total idiot moron, call 202-555-0172';
+
+const flag = (
+  category: string,
+  start: number,
+  end: number,
+  weight: number,
+  extra: Partial<Flag> = {}
+): Flag => ({
+  source: 'rule',
+  category,
+  weight,
+  message: `${category} ${start}-${end}`,
+  indices: [start, end],
+  snippet: text.slice(start, end),
+  ...extra,
+});
+
+describe('combineWeights', () => {
+  it('keeps the strongest weight or adds diminishing shares', () => {
+    expect(combineWeights([10, 30, 20], { strategy: 'max', decay: 0.5 })).toBe(
+      30
+    );
+    expect(
+      combineWeights([10, 30, 20], { strategy: 'diminishing', decay: 0.5 })
+    ).toBe(30 + 10 + 2.5);
+  });
+});
+
+describe('consolidateFlags', () => {
+  it('merges identical and overlapping spans in the same category', () => {
+    const flags = consolidateFlags(text, [
+      flag('profanity', 16, 21, 10, { ruleId: 'profanity.idiot' }),
+      flag('profanity', 10, 21, 20, {
+        ruleId: 'profanity.total-idiot',
+        severity: 'medium',
+      }),
+      flag('profanity', 16, 21, 10, {
+        ruleId: 'profanity.idiot',
+        severity: 'high',
+      }),
+    ]);
+    expect(flags).toHaveLength(1);
+    expect(flags[0]).toMatchObject({
+      weight: 20 + 5 + 2.5,
+      message: 'profanity 10-21',
+      ruleId: 'profanity.total-idiot',
+      severity: 'high',
+      indices: [10, 21],
+      snippet: 'total idiot',
+      ruleIds: ['profanity.total-idiot', 'profanity.idiot'],
+    });
+  });
+
+  it('keeps adjacent spans and other categories apart', () => {
+    const flags = consolidateFlags(text, [
+      flag('profanity', 16, 21, 10),
+      flag('profanity', 22, 27, 10),
+      flag('hate', 16, 21, 10),
+    ]);
+    expect(flags.map((f) => f.ruleIds)).toEqual([
+      undefined,
+      undefined,
+      undefined,
+    ]);
+  });
+
+  it('does not chain separate spans through a wide one', () => {
+    const spam =
+      'Get rich quick! Double your bitcoin now, visit a.co b.co c.co';
+    const flags = consolidateFlags(spam, [
+      flag('spam', 0, spam.length, 6, { ruleId: 'spam.too-many-links' }),
+      flag('spam', 0, 15, 18, { ruleId: 'spam.scam-phrase' }),
+      flag('spam', 16, 35, 25, { ruleId: 'spam.crypto-doubling' }),
+    ]);
+    expect(flags.map((f) => f.ruleIds ?? f.ruleId)).toEqual([
+      ['spam.too-many-links', 'spam.scam-phrase'],
+      'spam.crypto-doubling',
+    ]);
+  });
+
+  it('keeps aggregate flags apart from the matches they cover', () => {
+    const spam = 'WIN WIN WIN free prizes, claim now';
+    const flags = consolidateFlags(spam, [
+      flag('spam', 0, spam.length, 10, {
+        ruleId: 'spam.all-caps',
+        aggregate: true,
+      }),
+      flag('spam', 0, 3, 18, { ruleId: 'spam.scam-phrase' }),
+      flag('spam', 25, 34, 12, { ruleId: 'spam.urgency' }),
+    ]);
+    expect(flags.map((f) => [f.ruleId, f.weight, f.ruleIds])).toEqual([
+      ['spam.all-caps', 10, undefined],
+      ['spam.scam-phrase', 18, undefined],
+      ['spam.urgency', 12, undefined],
+    ]);
+  });
+
+  it('passes unspanned flags through in their original order', () => {
+    const ml: Flag = {
+      source: 'ml',
+      category: 'hate',
+      weight: 40,
+      message: 'ML',
+    };
+    const flags = consolidateFlags(
+      text,
+      [flag('pii', 34, 46, 10), ml, flag('pii', 34, 46, 10)],
+      { strategy: 'max', decay: 0.5 }
+    );
+    expect(flags.map((f) => [f.message, f.weight])).toEqual([
+      ['pii 34-46', 10],
+      ['ML', 40],
+    ]);
+  });
+});
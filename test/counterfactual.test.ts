@@ -0,0 +1,102 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../src/config.js', () => ({
+  config: {
+    debug: false,
+    thresholds: { block: 70, review: 30, duplicate: 0.15 },
+    weights: { rule: 1.0, ml: 0.8, vision: 0.9, metadata: 0.3 },
+    scoring: { strategy: 'additive' },
+    temporal: { burstHour: 10, burstDay: 50 },
+    account: { newAccountDays: 7, maxViolations: 5 },
+  },
+}));
+
+import { calculateModerationScore } from '../src/scoring.js';
+import { explainCounterfactual } from '../src/counterfactual.js';
+import type { Context, Flag } from '../src/schema.js';
+
+const flag = (ruleId: string, weight: number): Flag => ({
+  source: 'rule',
+  category: 'spam',
+  weight,
+  message: ruleId,
+  ruleId,
+});
+
+const score = (flags: Flag[], context?: Context) => {
+  const {
+    label,
+    flags: scored,
+    explanation,
+  } = calculateModerationScore(flags, context);
+  return { label, flags: scored, explanation };
+};
+
+describe('explainCounterfactual', () => {
+  it('removes the fewest flags needed to drop a tier', () => {
+    const result = score([flag('a', 10), flag('b', 45), flag('c', 20)]);
+    expect(result.label).toBe('block');
+
+    const cf = explainCounterfactual(result);
+    expect(cf.targetLabel).toBe('review');
+    expect(cf.remove?.flags.map((f) => f.ruleId)).toEqual(['b']);
+    expect(cf.remove?.multipliers).toEqual([]);
+    expect(cf.scoreAfter).toBe(30);
+  });
+
+  it('reports the distance to each threshold', () => {
+    const cf = explainCounterfactual(score([flag('a', 40)]));
+    expect(cf.distances).toEqual([
+      { threshold: 'review', value: 30, distance: 10 },
+      { threshold: 'block', value: 70, distance: -30 },
+    ]);
+    expect(cf.remove?.flags.map((f) => f.ruleId)).toEqual(['a']);
+  });
+
+  it('removes a context signal when that is the smaller change', () => {
+    const newAccount = { account: { createdAt: new Date().toISOString() } };
+    const flags = ['a', 'b', 'c', 'd', 'e', 'f'].map((id) => flag(id, 10));
+    const result = score(flags, newAccount);
+    expect(result.explanation.finalScore).toBe(90);
+
+    const cf = explainCounterfactual(result);
+    expect(cf.remove?.flags).toEqual([]);
+    expect(cf.remove?.multipliers).toEqual([{ name: 'account', value: 1.5 }]);
+    expect(cf.scoreAfter).toBe(60);
+  });
+
+  it('has nothing to remove for allowed content', () => {
+    const cf = explainCounterfactual(score([flag('a', 5)]));
+    expect(cf).toMatchObject({
+      label: 'allow',
+      targetLabel: null,
+      remove: null,
+    });
+  });
+
+  it('works from the score label when a decision rule overrode it', () => {
+    const result = {
+      ...score([flag('a', 40)]),
+      label: 'block' as const,
+      overrides: [
+        {
+          ruleId: 'selfharm-new-account',
+          label: { from: 'review' as const, to: 'block' as const },
+        },
+      ],
+    };
+    expect(explainCounterfactual(result)).toMatchObject({
+      label: 'review',
+      targetLabel: 'allow',
+      overriddenBy: { ruleId: 'selfharm-new-account', label: 'block' },
+      remove: { flags: [expect.objectContaining({ ruleId: 'a' })] },
+      scoreAfter: 0,
+    });
+  });
+
+  it('requires a score explanation', () => {
+    expect(() => explainCounterfactual({ label: 'block', flags: [] })).toThrow(
+      'Result has no score explanation'
+    );
+  });
+});
@@ -0,0 +1,266 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, it, expect, vi, afterAll, afterEach } from 'vitest';
+
+vi.mock('../src/config.js', () => ({
+  config: {
+    debug: false,
+    thresholds: { block: 70, review: 30, duplicate: 0.15 },
+    weights: { rule: 1.0, ml: 0.8, vision: 0.9, metadata: 0.3 },
+    scoring: { strategy: 'additive' },
+    decisions: {},
+    temporal: { burstHour: 10, burstDay: 50 },
+    account: { newAccountDays: 7, maxViolations: 5 },
+  },
+}));
+
+import { calculateModerationScore } from '../src/scoring.js';
+import { applyPolicy, getPlatformPolicy } from '../src/policy.js';
+import {
+  applyDecisionRules,
+  reloadDecisionRules,
+  setDecisionRules,
+} from '../src/decisions/index.js';
+import { compileExpression } from '../src/decisions/expression.js';
+import type { Context, Flag } from '../src/schema.js';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'decision-rules-'));
+afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+afterEach(() => setDecisionRules([]));
+
+function writeRules(name: string, data: unknown): string {
+  const file = path.join(dir, name);
+  fs.writeFileSync(file, JSON.stringify(data));
+  return file;
+}
+
+const daysAgo = (days: number) =>
+  new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+/**
+ * Score, apply the default policy, then the active decision rules
+ */
+function decide(flags: Flag[], context?: Context) {
+  const scored = calculateModerationScore(flags, context);
+  const policy = applyPolicy(scored.explanation, getPlatformPolicy());
+  return applyDecisionRules(
+    {
+      score: scored.score,
+      label: scored.label,
+      platform: 'generic',
+      flags: scored.flags,
+      explanation: scored.explanation,
+      categories: policy.categories,
+      actions: policy.actions,
+    },
+    scored.features,
+    context
+  );
+}
+
+const selfharm: Flag = {
+  source: 'ml',
+  category: 'selfharm',
+  weight: 30,
+  confidence: 0.9,
+  message: 'Self-harm content',
+};
+const hate: Flag = {
+  source: 'rule',
+  category: 'hate',
+  weight: 80,
+  ruleId: 'hate.slur',
+  message: 'Hate speech',
+};
+
+const RULES = [
+  {
+    id: 'selfharm-new-account',
+    when: "maxConfidence('selfharm', 'ml') > 0.8 and account.isNewAccount",
+    then: { label: 'block' as const, addActions: ['block' as const] },
+  },
+  {
+    id: 'verified-to-review',
+    when: "label == 'block' and account.isVerified",
+    then: { label: 'review' as const, actions: ['review' as const] },
+  },
+];
+
+describe('compileExpression', () => {
+  const run = (source: string, scope = {}) =>
+    compileExpression(source, []).evaluate(scope, {});
+
+  it('follows the usual precedence', () => {
+    expect(run('1 + 2 * 3 == 7')).toBe(true);
+    expect(run('-(1 + 2) * 2')).toBe(-6);
+    expect(run('not false and (true or false)')).toBe(true);
+    expect(run("'b' in ['a', 'b'] && 3 >= 3")).toBe(true);
+  });
+
+  it('treats missing paths as null and null orderings as false', () => {
+    const scope = { account: { age: 3 } };
+    expect(run('account.missing.deep', scope)).toBeNull();
+    expect(run('account.missing > 1 or account.missing < 1', scope)).toBe(
+      false
+    );
+    expect(run('account.age / 0', scope)).toBeNull();
+    // Equality compares null as a value
+    expect(run('account.missing != true', scope)).toBe(true);
+    expect(run('account.missing == false', scope)).toBe(false);
+    expect(run('account.missing == null', scope)).toBe(true);
+  });
+
+  it('rejects bad syntax, unknown functions and forbidden properties', () => {
+    expect(() => run('score >')).toThrow('Unexpected end');
+    expect(() => run("eval('1')")).toThrow('Unknown function "eval"');
+    expect(() => run('account.__proto__')).toThrow('Forbidden property');
+    expect(() => run('account.constructor')).toThrow('Forbidden property');
+    expect(() => run('score = 1')).toThrow('Unexpected "="');
+  });
+});
+
+describe('applyDecisionRules', () => {
+  it('leaves the decision alone without rules', () => {
+    const { label, overrides } = decide([selfharm], {
+      account: { createdAt: daysAgo(2) },
+    });
+    expect(label).toBe('review');
+    expect(overrides).toEqual([]);
+  });
+
+  it('blocks confident self-harm from new accounts', () => {
+    setDecisionRules(RULES);
+    const { label, actions, overrides } = decide([selfharm], {
+      account: { createdAt: daysAgo(2) },
+    });
+    expect(label).toBe('block');
+    expect(actions).toContain('block');
+    expect(overrides).toEqual([
+      expect.objectContaining({
+        ruleId: 'selfharm-new-account',
+        label: { from: 'review', to: 'block' },
+      }),
+    ]);
+
+    expect(decide([selfharm], { account: { createdAt: daysAgo(90) } })).toEqual(
+      expect.objectContaining({ label: 'allow', overrides: [] })
+    );
+  });
+
+  it('lets later rules see and override earlier ones', () => {
+    setDecisionRules(RULES);
+    const { label, actions, overrides } = decide([selfharm], {
+      account: { createdAt: daysAgo(2), isVerified: true },
+    });
+    expect(label).toBe('review');
+    expect(actions).toEqual(['review']);
+    expect(overrides.map((o) => [o.ruleId, o.label])).toEqual([
+      ['selfharm-new-account', { from: 'review', to: 'block' }],
+      ['verified-to-review', { from: 'block', to: 'review' }],
+    ]);
+  });
+
+  it('reads scores, categories and rule ids', () => {
+    setDecisionRules([
+      {
+        id: 'slur-hold',
+        when: "hasRule('hate.slur') and categories.hate.score >= 70",
+        then: { addActions: ['shadow_hold'] },
+      },
+    ]);
+    const { label, actions, overrides } = decide([hate]);
+    expect(label).toBe('block');
+    expect(actions).toEqual(['review', 'shadow_hold', 'block']);
+    expect(overrides).toEqual([
+      {
+        ruleId: 'slur-hold',
+        actions: {
+          from: ['review', 'block'],
+          to: ['review', 'shadow_hold', 'block'],
+        },
+      },
+    ]);
+  });
+
+  it('skips disabled rules and reports bad ones by id', () => {
+    expect(setDecisionRules([{ ...RULES[0], enabled: false }, RULES[1]])).toBe(
+      1
+    );
+    expect(() =>
+      setDecisionRules([{ id: 'broken', when: 'score >>', then: {} }])
+    ).toThrow();
+    expect(() =>
+      setDecisionRules([
+        { id: 'broken', when: 'score >>', then: { label: 'block' } },
+      ])
+    ).toThrow('Rule "broken"');
+    expect(() => setDecisionRules([RULES[0], RULES[0]])).toThrow('Duplicate');
+  });
+});
+
+describe('reloadDecisionRules', () => {
+  it('keeps the previous rules when a reload fails', () => {
+    const good = writeRules('good.json', { version: 1, rules: RULES });
+    const bad = writeRules('bad.json', {
+      version: 1,
+      rules: [{ id: 'x', when: 'nope(', then: { label: 'block' } }],
+    });
+
+    expect(reloadDecisionRules(good)).toBe(2);
+    expect(() => reloadDecisionRules(bad)).toThrow('Rule "x"');
+    expect(
+      decide([selfharm], { account: { createdAt: daysAgo(2) } }).label
+    ).toBe('block');
+
+    expect(reloadDecisionRules()).toBe(0);
+  });
+
+  it('loads DECISION_RULES_FILE on first use', async () => {
+    const file = writeRules('lazy.json', { version: 1, rules: RULES });
+    vi.resetModules();
+    const { config } = await import('../src/config.js');
+    config.decisions.rulesFile = file;
+    const fresh = await import('../src/decisions/index.js');
+
+    const { label, overrides } = fresh.applyDecisionRules(
+      {
+        score: 27,
+        label: 'allow',
+        platform: 'generic',
+        flags: [selfharm],
+        actions: ['allow'],
+      },
+      { account: { isNewAccount: true } }
+    );
+    expect(label).toBe('block');
+    expect(overrides.map((o) => o.ruleId)).toEqual(['selfharm-new-account']);
+  });
+
+  it('runs without rules when the rules file fails to load', async () => {
+    const file = path.join(dir, 'broken.json');
+    fs.writeFileSync(file, '{ not json');
+    vi.resetModules();
+    const { config } = await import('../src/config.js');
+    config.decisions.rulesFile = file;
+    const fresh = await import('../src/decisions/index.js');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    try {
+      for (const label of ['allow', 'review'] as const) {
+        const decision = fresh.applyDecisionRules({
+          score: label === 'allow' ? 0 : 40,
+          label,
+          platform: 'generic',
+          flags: [],
+          actions: [label],
+        });
+        expect(decision).toEqual({ label, actions: [label], overrides: [] });
+      }
+      // Logged once, not retried on every request
+      expect(warn).toHaveBeenCalledTimes(1);
+    } finally {
+      warn.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../src/config.js', () => ({
+  config: {
+    debug: false,
+    thresholds: { block: 70, review: 30, duplicate: 0.15 },
+    weights: { rule: 1.0, ml: 0.8, vision: 0.9, metadata: 0.3 },
+    scoring: { strategy: 'additive' },
+    temporal: { burstHour: 10, burstDay: 50 },
+    account: { newAccountDays: 7, maxViolations: 5 },
+  },
+}));
+
+import {
+  calculateModerationScore,
+  describeScoreArithmetic,
+} from '../src/scoring.js';
+import type { Flag } from '../src/schema.js';
+
+const flags: Flag[] = [
+  {
+    source: 'rule',
+    category: 'spam',
+    weight: 18,
+    message: 'Scam-like phrase',
+    ruleId: 'spam.scam-phrase',
+  },
+  { source: 'ml', category: 'hate', weight: 40, message: 'ML hate' },
+];
+
+describe('score explanation', () => {
+  it('breaks down every flag contribution', () => {
+    const { explanation } = calculateModerationScore(flags, undefined, 'x');
+    expect(explanation.flags).toEqual([
+      {
+        index: 0,
+        source: 'rule',
+        category: 'spam',
+        ruleId: 'spam.scam-phrase',
+        rawWeight: 18,
+        sourceWeight: 1,
+        platformWeight: 1.2,
+        contribution: 18 * 1.2,
+      },
+      {
+        index: 1,
+        source: 'ml',
+        category: 'hate',
+        ruleId: undefined,
+        rawWeight: 40,
+        sourceWeight: 0.8,
+        platformWeight: 1,
+        contribution: 40 * 0.8,
+      },
+    ]);
+    expect(explanation.baseScore).toBe(18 * 1.2 + 40 * 0.8);
+    expect(explanation.threshold).toEqual({ crossed: 'review', value: 25 });
+  });
+
+  it('applies multipliers in order and rebuilds the score exactly', () => {
+    const result = calculateModerationScore(flags, {
+      account: { createdAt: new Date().toISOString(), priorViolations: 2 },
+      postingHistory: { lastHourCount: 20 },
+    });
+    const { explanation } = result;
+    expect(explanation.multipliers.map((m) => m.name)).toEqual([
+      'account',
+      'temporal',
+    ]);
+
+    let score = explanation.flags.reduce((sum, f) => sum + f.contribution, 0);
+    for (const m of explanation.multipliers) {
+      expect(m.scoreBefore).toBe(score);
+      score *= m.value;
+      expect(m.scoreAfter).toBe(score);
+    }
+    expect(explanation.uncappedScore).toBe(score);
+    expect(explanation.finalScore).toBe(Math.min(score, 100));
+    expect(explanation.score).toBe(result.score);
+    expect(explanation.threshold).toEqual({ crossed: 'block', value: 70 });
+  });
+
+  it('reports no threshold for allowed content', () => {
+    const { explanation } = calculateModerationScore([]);
+    expect(explanation).toMatchObject({
+      baseScore: 0,
+      score: 0,
+      threshold: { crossed: 'none' },
+    });
+    expect(describeScoreArithmetic(explanation)).toContain(
+      'Below the review threshold (30)'
+    );
+  });
+});
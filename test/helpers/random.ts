@@ -0,0 +1,18 @@
+/**
+ * Deterministic pseudo-random words (mulberry32), so large generated
+ * inputs are the same on every run
+ */
+export function createRandomWords(seed = 42) {
+  let state = seed;
+  const random = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const word = (length: number) =>
+    Array.from({ length }, () =>
+      String.fromCharCode(97 + Math.floor(random() * 26))
+    ).join('');
+  return { random, word };
+}
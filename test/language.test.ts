@@ -0,0 +1,97 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../src/config.js', () => ({
+  config: {
+    enableLLM: false,
+    enableRekognition: false,
+    enableSupabase: false,
+    debug: false,
+    thresholds: { block: 70, review: 30, duplicate: 0.15 },
+    weights: { rule: 1.0, ml: 0.8, vision: 0.9, metadata: 0.3 },
+    scoring: { strategy: 'additive' },
+    wordlist: { matchMode: 'token' },
+    language: { detect: true, minConfidence: 0.5 },
+    pii: { defaultRegion: 'US' },
+    links: { followRedirects: false, maxHops: 5, timeoutMs: 3000 },
+    phishing: {},
+    detectors: { order: [], disabled: [] },
+    consolidation: { strategy: 'diminishing', decay: 0.5 },
+    spam: {},
+    decisions: {},
+    social: { hashtagThreshold: 30, mentionThreshold: 10, emojiThreshold: 30 },
+    temporal: { burstHour: 10, burstDay: 50 },
+    account: { newAccountDays: 7, maxViolations: 5 },
+  },
+}));
+
+import { detectLanguage } from '../src/language.js';
+import { bundledWordlistFlags } from '../src/detectors/index.js';
+import { moderateText } from '../src/index.js';
+
+describe('detectLanguage', () => {
+  it.each([
+    ['I think that you are going to love this', 'en'],
+    ['Creo que el perro está en la casa con los niños', 'es'],
+    ['Eu não sei se você vai para a praia com as crianças', 'pt'],
+    ['Ich bin nicht sicher, ob die Katze auf dem Dach ist', 'de'],
+    ['मुझे यह फिल्म बहुत पसंद है', 'hi'],
+    ['أنا أحب هذا الفيلم كثيرا', 'ar'],
+  ])('identifies %s as %s', (text, language) => {
+    expect(detectLanguage(text).language).toBe(language);
+  });
+
+  it('returns und without enough evidence', () => {
+    expect(detectLanguage('lol 123').language).toBe('und');
+    expect(detectLanguage('').language).toBe('und');
+  });
+});
+
+describe('locale routing', () => {
+  it('runs the detected language lists on top of English', () => {
+    const text = 'eres un pendejo';
+    expect(bundledWordlistFlags(text, 'es').map((f) => f.ruleId)).toEqual([
+      'es.profanity.pendejo',
+    ]);
+    expect(bundledWordlistFlags(text, 'en')).toEqual([]);
+    expect(
+      bundledWordlistFlags('eres una fucking bitch', 'es').map((f) => f.ruleId)
+    ).toEqual(expect.arrayContaining(['profanity.fuck', 'profanity.bitch']));
+  });
+
+  it('still flags English terms padded with foreign stopwords', async () => {
+    const plain = await moderateText('you fucking bitch');
+    const padded = await moderateText(
+      'you fucking bitch que de la los el por para con'
+    );
+    expect(padded.language?.language).toBe('es');
+    expect(padded.label).toBe(plain.label);
+    expect(padded.score).toBe(plain.score);
+    expect(padded.score).toBeGreaterThan(0);
+  });
+
+  it('falls back to every list for unknown languages', () => {
+    const ids = (language?: string) =>
+      bundledWordlistFlags('mierda shit', language).map((f) => f.ruleId);
+    expect(ids('und')).toEqual(['es.profanity.mierda', 'profanity.shit']);
+    expect(ids()).toEqual(ids('fr'));
+  });
+
+  it('matches Devanagari terms on whole tokens', () => {
+    const flags = bundledWordlistFlags('मैं तुम्हें जान से मार दूंगा', 'hi');
+    expect(flags.map((f) => f.ruleId)).toEqual([
+      'hi.violence.jaan-se-maar',
+      'hi.violence.maar-dunga',
+    ]);
+  });
+
+  it('records the detected language on the result', async () => {
+    const result = await moderateText('te voy a matar, cabrón');
+    expect(result.language?.language).toBe('es');
+    expect(result.flags.map((f) => f.ruleId)).toEqual(
+      expect.arrayContaining([
+        'es.violence.te-voy-a-matar',
+        'es.profanity.cabron',
+      ])
+    );
+  });
+});
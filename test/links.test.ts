@@ -0,0 +1,253 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../src/config.js', () => ({
+  config: {
+    links: { followRedirects: false, maxHops: 3, timeoutMs: 1000 },
+  },
+}));
+
+import {
+  defaultLinkFetcher,
+  extractLinks,
+  inspectHost,
+  lookupReputation,
+  resolveRedirects,
+  type LinkFetcher,
+} from '../src/links/index.js';
+import {
+  linksDetector,
+  resolvingLinksDetector,
+} from '../src/detectors/links.js';
+
+/**
+ * Fake fetcher serving a fixed redirect table
+ */
+function fakeFetcher(redirects: Record<string, string>): LinkFetcher {
+  return async (url) =>
+    redirects[url]
+      ? { status: 301, location: redirects[url] }
+      : { status: 200, location: null };
+}
+
+describe('extractLinks', () => {
+  it('finds links with and without a scheme', () => {
+    const links = extractLinks(
+      'see https://a.example.com/x?y=1, www.example.org and shop.example.co.uk.'
+    );
+    expect(links.map((l) => [l.raw, l.host, l.hasScheme])).toEqual([
+      ['https://a.example.com/x?y=1', 'a.example.com', true],
+      ['www.example.org', 'www.example.org', false],
+      ['shop.example.co.uk', 'shop.example.co.uk', false],
+    ]);
+  });
+
+  it('refangs defanged links', () => {
+    const [a, b] = extractLinks(
+      'go to evil[.]com or hxxps://bad(.)example[.]net/p'
+    );
+    expect([a.url, a.defanged]).toEqual(['http://evil.com/', true]);
+    expect(b.url).toBe('https://bad.example.net/p');
+  });
+
+  it('ignores file names, abbreviations and emails', () => {
+    expect(
+      extractLinks('I use node.js, e.g. in app.ts; mail me@example.com')
+    ).toEqual([]);
+  });
+
+  it('keeps balanced parentheses in paths', () => {
+    const [link] = extractLinks(
+      '(see https://en.wikipedia.org/wiki/Foo_(bar))'
+    );
+    expect(link.raw).toBe('https://en.wikipedia.org/wiki/Foo_(bar)');
+  });
+});
+
+describe('inspectHost', () => {
+  it('flags whole-script and mixed-script homographs', () => {
+    const [cyrillic, mixed] = extractLinks(
+      'https://аррӏе.com https://pаypal.com'
+    );
+    expect(cyrillic.host).toBe('xn--80ak6aa92e.com');
+    expect(inspectHost(cyrillic.host, cyrillic.unicodeHost)).toMatchObject({
+      punycode: true,
+      homograph: true,
+      skeleton: 'apple.com',
+    });
+    expect(inspectHost(mixed.host, mixed.unicodeHost)).toMatchObject({
+      mixedScript: true,
+      homograph: true,
+    });
+  });
+
+  it('accepts legitimate IDNs', () => {
+    for (const host of ['xn--mnchen-3ya.de', 'xn--e1afmkfd.xn--p1ai']) {
+      const [link] = extractLinks(`https://${host}/`);
+      expect(inspectHost(link.host, link.unicodeHost).homograph).toBe(false);
+    }
+  });
+});
+
+describe('lookupReputation', () => {
+  it('matches subdomains by suffix, most specific first', () => {
+    expect(lookupReputation('login.grabify.link')).toEqual({
+      verdict: 'deny',
+      domain: 'grabify.link',
+    });
+    expect(lookupReputation('en.wikipedia.org')?.verdict).toBe('allow');
+    expect(lookupReputation('bit.ly')?.verdict).toBe('shortener');
+    expect(lookupReputation('notwikipedia.org')).toBeUndefined();
+  });
+});
+
+describe('resolveRedirects', () => {
+  it('follows a chain to its final URL', async () => {
+    const chain = await resolveRedirects('https://bit.ly/x', {
+      fetcher: fakeFetcher({
+        'https://bit.ly/x': 'https://t.co/y',
+        'https://t.co/y': '/landing',
+      }),
+    });
+    expect(chain).toEqual({
+      hops: ['https://bit.ly/x', 'https://t.co/y', 'https://t.co/landing'],
+      finalUrl: 'https://t.co/landing',
+      complete: true,
+    });
+  });
+
+  it('stops at the hop limit and on loops', async () => {
+    const endless: LinkFetcher = async (url) => ({
+      status: 302,
+      location: `${url}x`,
+    });
+    const limited = await resolveRedirects('https://a.com/', {
+      fetcher: endless,
+    });
+    expect(limited.hops).toHaveLength(4);
+    expect(limited.complete).toBe(false);
+
+    const loop = await resolveRedirects('https://a.com/', {
+      fetcher: fakeFetcher({
+        'https://a.com/': 'https://b.com/',
+        'https://b.com/': 'https://a.com/',
+      }),
+    });
+    expect(loop.error).toBe('Redirect loop');
+  });
+
+  it('reports fetch errors without throwing', async () => {
+    const chain = await resolveRedirects('https://a.com/', {
+      fetcher: async () => {
+        throw new Error('offline');
+      },
+    });
+    expect(chain).toMatchObject({ complete: false, error: 'offline' });
+  });
+
+  it('stops at a malformed Location header', async () => {
+    const chain = await resolveRedirects('https://a.com/', {
+      fetcher: async () => ({ status: 302, location: 'http://[::1' }),
+    });
+    expect(chain).toMatchObject({
+      hops: ['https://a.com/'],
+      complete: false,
+      error: 'Invalid redirect location http://[::1',
+    });
+  });
+
+  it('refuses loopback, private and link-local hops', async () => {
+    const fetcher = vi.fn(
+      fakeFetcher({
+        'https://bit.ly/a': 'http://127.0.0.1:6379/',
+        'https://bit.ly/b': 'http://169.254.169.254/latest/meta-data/',
+        'https://bit.ly/c': 'http://[::ffff:10.0.0.1]/',
+        'https://bit.ly/d': 'http://admin.localhost/',
+      })
+    );
+    for (const path of ['a', 'b', 'c', 'd']) {
+      const chain = await resolveRedirects(`https://bit.ly/${path}`, {
+        fetcher,
+      });
+      expect(chain.complete).toBe(false);
+      expect(chain.error).toMatch(/^Refused internal host/);
+    }
+    expect(fetcher).toHaveBeenCalledTimes(4);
+
+    const first = await resolveRedirects('http://192.168.1.1/', { fetcher });
+    expect(first).toMatchObject({ hops: ['http://192.168.1.1/'] });
+    expect(fetcher).toHaveBeenCalledTimes(4);
+  });
+
+  it('checks the address the default fetcher connects to', async () => {
+    const requests = vi.fn();
+    const server = http.createServer((req, res) => {
+      requests();
+      res.writeHead(302, { location: 'http://169.254.169.254/' }).end();
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve)
+    );
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      // A name, so only the socket's lookup sees that it is loopback
+      await expect(
+        defaultLinkFetcher(`http://localhost:${port}/`)
+      ).rejects.toThrow('Refused internal host localhost');
+      expect(requests).not.toHaveBeenCalled();
+    } finally {
+      server.close();
+    }
+  });
+
+  it('aborts a fetch that times out', async () => {
+    let signal: AbortSignal | undefined;
+    const chain = await resolveRedirects('https://a.com/', {
+      timeoutMs: 10,
+      fetcher: (_url, hopSignal) => {
+        signal = hopSignal;
+        return new Promise(() => {});
+      },
+    });
+    expect(chain.error).toBe('Timed out after 10ms');
+    expect(signal?.aborted).toBe(true);
+  });
+});
+
+describe('links detectors', () => {
+  it('grades links by reputation and homographs', () => {
+    const flags = linksDetector(
+      'https://bit.ly/a https://wikipedia.org grabify[.]link/x https://аррӏе.com'
+    );
+    expect(flags.map((f) => [f.weight, f.message])).toEqual([
+      [30, 'Suspicious link shortener'],
+      [55, 'Link to denylisted domain grabify.link (defanged)'],
+      [
+        40,
+        'Homograph domain аррӏе.com (xn--80ak6aa92e.com) imitates apple.com',
+      ],
+      [15, 'Too many links'],
+    ]);
+  });
+
+  it('judges shortened links by where they land', async () => {
+    const fetcher = fakeFetcher({
+      'https://bit.ly/a': 'https://iplogger.org/track',
+      'https://bit.ly/b': 'https://www.youtube.com/watch?v=1',
+    });
+    const flags = await resolvingLinksDetector(
+      'https://bit.ly/a and https://bit.ly/b',
+      { fetcher }
+    );
+    expect(flags.map((f) => [f.weight, f.link?.reputation])).toEqual([
+      [45, 'deny'],
+      [5, 'allow'],
+    ]);
+    expect(flags[0].link?.redirects).toEqual([
+      'https://bit.ly/a',
+      'https://iplogger.org/track',
+    ]);
+  });
+});
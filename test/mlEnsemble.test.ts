@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  combineProviderResults,
+  type EnsembleOptions,
+  type ProviderCategories,
+} from '../src/detectors/mlEnsemble.js';
+
+const results: ProviderCategories[] = [
+  {
+    provider: 'openai',
+    categories: {
+      hate: { confidence: 0.9, label: 'hate speech' },
+      spam: { confidence: 0.7, label: 'spam' },
+    },
+  },
+  {
+    provider: 'perspective',
+    categories: { hate: { confidence: 0.7, label: 'Identity attack' } },
+  },
+];
+
+const base: EnsembleOptions = {
+  strategy: 'max',
+  minAgree: 2,
+  trust: {},
+  threshold: 0.6,
+};
+
+describe('ML ensemble', () => {
+  it('takes the highest confidence with max', () => {
+    const flags = combineProviderResults(results, base);
+    const hate = flags.find((f) => f.category === 'hate')!;
+    expect(hate.confidence).toBe(0.9);
+    expect(hate.message).toContain('hate speech');
+    expect(flags.some((f) => f.category === 'spam')).toBe(true);
+  });
+
+  it('treats missing categories as zero with mean', () => {
+    const flags = combineProviderResults(results, { ...base, strategy: 'mean' });
+    expect(flags.find((f) => f.category === 'hate')!.confidence).toBeCloseTo(
+      0.8
+    );
+    // (0.7 + 0) / 2 is below the threshold
+    expect(flags.some((f) => f.category === 'spam')).toBe(false);
+  });
+
+  it('weights providers by trust', () => {
+    const flags = combineProviderResults(results, {
+      ...base,
+      strategy: 'weighted',
+      trust: { openai: 3, perspective: 1 },
+    });
+    expect(flags.find((f) => f.category === 'hate')!.confidence).toBeCloseTo(
+      0.85
+    );
+  });
+
+  it('requires k-of-n agreement with vote', () => {
+    const flags = combineProviderResults(results, { ...base, strategy: 'vote' });
+    expect(flags.map((f) => f.category)).toEqual(['hate']);
+    expect(flags[0].provider).toBe('openai+perspective');
+    expect(flags[0].ensemble).toEqual({
+      strategy: 'vote',
+      votes: [
+        { provider: 'openai', confidence: 0.9, agreed: true },
+        { provider: 'perspective', confidence: 0.7, agreed: true },
+      ],
+    });
+  });
+});
@@ -9,6 +9,7 @@ vi.mock('../src/config.js', () => ({
     debug: false,
     thresholds: { block: 70, review: 30, duplicate: 0.15 },
     weights: { rule: 1.0, ml: 0.8, vision: 0.9, metadata: 0.3 },
+    scoring: { strategy: 'additive' },
     temporal: { burstHour: 10, burstDay: 50 },
     account: { newAccountDays: 7, maxViolations: 5 },
     aws: { region: 'us-east-1' },
@@ -16,6 +17,7 @@ vi.mock('../src/config.js', () => ({
     openai: { apiKey: undefined, model: 'gpt-4', maxTokens: 1000 },
     anthropic: { apiKey: undefined, model: 'claude-3-sonnet-20240229', maxTokens: 1000 },
     perspective: { apiKey: undefined },
+    nlp: { providers: ['anthropic'], ensemble: 'first', minAgree: 2, trust: {} },
   },
 }));
 
@@ -71,3 +73,50 @@ describe('ML flag generation', () => {
     expect(r.flags.some(f => f.category === 'spam')).toBe(false);
   });
 });
+
+describe('ML provider chain', () => {
+  const failing = {
+    isEnabled: () => true,
+    getName: () => 'perspective',
+    moderateText: async () => ({
+      enabled: false,
+      categories: {},
+      error: 'quota exceeded',
+    }),
+  };
+  const throwing = {
+    isEnabled: () => true,
+    getName: () => 'anthropic',
+    moderateText: async () => {
+      throw new Error('network down');
+    },
+  };
+  const working = {
+    isEnabled: () => true,
+    getName: () => 'openai',
+    moderateText: async () => ({
+      enabled: true,
+      categories: { violence: { confidence: 0.8, label: 'threat' } },
+    }),
+  };
+
+  it('falls through failing providers to the next one', async () => {
+    const r = await moderateTextWithML('I will hurt you', [
+      failing,
+      throwing,
+      working,
+    ]);
+    expect(r.enabled).toBe(true);
+    expect(r.provider).toBe('openai');
+    expect(r.attempts.map((a) => a.status)).toEqual(['error', 'error', 'ok']);
+    expect(r.flags).toHaveLength(1);
+    expect(r.flags[0].provider).toBe('openai');
+    expect(r.flags[0].message).toContain('openai');
+  });
+
+  it('reports every attempted provider when all fail', async () => {
+    const r = await moderateTextWithML('text', [failing, throwing]);
+    expect(r.enabled).toBe(false);
+    expect(r.provider).toBe('perspective,anthropic');
+  });
+});
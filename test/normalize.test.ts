@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isWordChar,
+  normalizeForMatch,
+  toOriginalSpan,
+} from '../src/normalize.js';
+import { wordlistDetector } from '../src/detectors/wordlist.js';
+
+describe('normalizeForMatch', () => {
+  it('folds fullwidth, leetspeak and whitespace', () => {
+    expect(normalizeForMatch('ＨＥＬＬＯ   w0rld').text).toBe('hello world');
+  });
+
+  it('maps normalized spans back to the original text', () => {
+    const input = 'ok  f\u200Buck  you';
+    const norm = normalizeForMatch(input);
+    expect(norm.text).toBe('ok fuck you');
+    expect(norm.map).toHaveLength(norm.text.length);
+
+    const a = norm.text.indexOf('fuck');
+    const [start, end] = toOriginalSpan(norm, a, a + 'fuck'.length);
+    expect(input.slice(start, end)).toBe('f\u200Buck');
+  });
+
+  it('folds runs of leet symbols inside a token', () => {
+    expect(normalizeForMatch('you a$$hole').text).toBe('you asshole');
+    expect(normalizeForMatch('kiss my @$$').text).toBe('kiss my ass');
+    // Sentence punctuation after a word stays as it is
+    expect(normalizeForMatch('damn!! ok|').text).toBe('damn!! ok|');
+  });
+
+  it('folds Cyrillic and Greek lookalikes', () => {
+    // Cyrillic \u0430, \u0441, \u0435 and Greek \u03BF
+    expect(
+      normalizeForMatch('b@d w\u043Erd f\u0430\u0441\u0435 \u03BFk').text
+    ).toBe('bad word face ok');
+  });
+
+  it('folds small capitals and other TR39 lookalikes', () => {
+    // Latin small capitals, Cherokee \u13A2 and Armenian \u0585
+    expect(
+      normalizeForMatch('\u1D18\u1D0F\u0280\u0274 \u13A2\u0585').text
+    ).toBe('porn to');
+    // Capital lookalikes of I read as "i", not "l"
+    expect(normalizeForMatch('SH\u0406T').text).toBe('shit');
+  });
+
+  it('leaves letters of other running-text scripts alone', () => {
+    // Arabic alef is a TR39 confusable of "l"
+    expect(normalizeForMatch('\u0627\u0644').text).toBe('\u0627\u0644');
+  });
+
+  it('folds mathematical, enclosed and accented letters', () => {
+    expect(normalizeForMatch('\u{1D41F}\u{1D42E}\u{1D41C}\u{1D424}').text).toBe(
+      'fuck'
+    );
+    expect(normalizeForMatch('\u24BB\u24E4\u24D2\u24DA').text).toBe('fuck');
+    expect(normalizeForMatch('\u{1F175}\u{1F184}\u{1F172}\u{1F17A}').text).toBe(
+      'fuck'
+    );
+    expect(normalizeForMatch('f\u00FC\u00E7k').text).toBe('fuck');
+    expect(normalizeForMatch('fu\u0336c\u0336k').text).toBe('fuck');
+  });
+
+  it('keeps non-diacritic combining marks', () => {
+    // Devanagari vowel sign must survive
+    expect(normalizeForMatch('\u0915\u093F').text).toBe('\u0915\u093F');
+  });
+
+  it('joins spaced-out single letters', () => {
+    expect(normalizeForMatch('you f.u.c.k up').text).toBe('you fuck up');
+    expect(normalizeForMatch('f u c k off').text).toBe('fuck off');
+    expect(normalizeForMatch('k-i-l-l').text).toBe('kill');
+    // Two letters or multi-letter tokens are left alone
+    expect(normalizeForMatch('u.s. a big deal').text).toBe('u.s. a big deal');
+  });
+
+  it('maps folded and de-spaced spans back to the original text', () => {
+    const input = 'so \u{1D41F}.\u03C5.c.k this';
+    const norm = normalizeForMatch(input);
+    expect(norm.text).toBe('so fuck this');
+    expect(norm.map).toHaveLength(norm.text.length);
+
+    const a = norm.text.indexOf('fuck');
+    const [start, end] = toOriginalSpan(norm, a, a + 4);
+    expect(input.slice(start, end)).toBe('\u{1D41F}.\u03C5.c.k');
+  });
+});
+
+describe('isWordChar', () => {
+  it('counts letters, digits and combining marks, not punctuation', () => {
+    for (const ch of ['a', 'é', '7', String.fromCodePoint(0x093e)]) {
+      expect(isWordChar(ch)).toBe(true);
+    }
+    for (const ch of ['_', '$', ' ', '-', undefined]) {
+      expect(isWordChar(ch)).toBe(false);
+    }
+  });
+});
+
+describe('wordlistDetector spans', () => {
+  const violence = wordlistDetector('violence', 'en/violence', 30);
+
+  it('highlights the exact original characters', () => {
+    const input = 'I   will\u200B  kill   you tomorrow';
+    const flags = violence(input);
+    const flag = flags.find((f) => f.message.includes('kill you'))!;
+    expect(flag.snippet).toBe('kill   you');
+    expect(input.slice(...flag.indices!)).toBe('kill   you');
+  });
+
+  it('matches leet symbol runs', () => {
+    const profanity = wordlistDetector('profanity', 'en/profanity', 18);
+    expect(profanity('you a$$hole').map((f) => f.snippet)).toEqual(['a$$hole']);
+  });
+
+  it('matches homoglyph and spaced-out evasions', () => {
+    const profanity = wordlistDetector('profanity', 'en/profanity', 18);
+    const input = 'what the f.\u03C5.c.k and \u0455h\u0456t';
+    const snippets = profanity(input).map((f) => f.snippet);
+    expect(snippets).toEqual(['f.\u03C5.c.k', '\u0455h\u0456t']);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../src/config.js', () => ({
+  config: {
+    wordlist: { matchMode: 'token' },
+    links: { followRedirects: false, maxHops: 5, timeoutMs: 3000 },
+    phishing: {},
+  },
+}));
+
+import { editDistance, matchBrandLookalike } from '../src/links/brands.js';
+import { phishingDetector } from '../src/detectors/phishing.js';
+import { analyzeLinks, followShortenedLinks } from '../src/links/index.js';
+
+describe('matchBrandLookalike', () => {
+  it.each([
+    ['paypa1-login.com', 'PayPal', 'confusable'],
+    ['paypall.com', 'PayPal', 'typosquat'],
+    ['secure-paypal.net', 'PayPal', 'combosquat'],
+    ['paypal.account-check.net', 'PayPal', 'subdomain'],
+    ['arnazon.co.uk', 'Amazon', 'confusable'],
+    ['bankofamerca.com', 'Bank of America', 'typosquat'],
+  ])('flags %s as %s (%s)', (host, brand, technique) => {
+    expect(matchBrandLookalike(host)).toMatchObject({ brand, technique });
+  });
+
+  it('uses confusable skeletons for IDN hosts', () => {
+    expect(
+      matchBrandLookalike('xn--pypal-4ve.com', 'pаypal.com')
+    ).toMatchObject({ brand: 'PayPal', technique: 'confusable' });
+  });
+
+  it('ignores official domains and unrelated hosts', () => {
+    for (const host of ['paypal.com', 'www.paypal.com', 'example.com']) {
+      expect(matchBrandLookalike(host)).toBeUndefined();
+    }
+  });
+
+  it('treats the brand name under a country-code suffix as official', () => {
+    for (const host of [
+      'amazon.co.uk',
+      'amazon.de',
+      'google.de',
+      'www.google.co.uk',
+    ]) {
+      expect(matchBrandLookalike(host)).toBeUndefined();
+    }
+    expect(matchBrandLookalike('amazon.xyz')).toMatchObject({
+      brand: 'Amazon',
+      technique: 'combosquat',
+    });
+    expect(matchBrandLookalike('amazon-login.de')).toMatchObject({
+      brand: 'Amazon',
+      technique: 'combosquat',
+    });
+  });
+
+  it('does not read ordinary words as misspelt short brands', () => {
+    for (const host of ['apply.com', 'chose.com', 'steal.com']) {
+      expect(matchBrandLookalike(host)).toBeUndefined();
+    }
+  });
+
+  it('computes edit distance', () => {
+    expect(editDistance('paypall', 'paypal')).toBe(1);
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+  });
+});
+
+describe('phishingDetector', () => {
+  it('fires on a lookalike link with credential-lure text', () => {
+    const text =
+      'Your account has been suspended. Verify your account at paypa1-login.com today';
+    const [flag] = phishingDetector(text);
+    expect(flag).toMatchObject({
+      category: 'phishing',
+      ruleId: 'phishing.confusable',
+      snippet: 'paypa1-login.com',
+      message: 'Possible PayPal phishing link: paypa1-login.com',
+    });
+    expect(flag.rationale).toContain('"Verify your account"');
+    expect(flag.rationale).toContain('not an official PayPal domain');
+  });
+
+  it('judges shortened links by where they land', async () => {
+    const text =
+      'Your account has been suspended. Verify your account at https://bit.ly/x';
+    expect(phishingDetector(text)).toEqual([]);
+
+    const analyses = await followShortenedLinks(analyzeLinks(text), {
+      fetcher: async (url) =>
+        url === 'https://bit.ly/x'
+          ? { status: 301, location: 'https://paypa1-login.com/' }
+          : { status: 200 },
+    });
+    const [flag] = phishingDetector(text, analyses);
+    expect(flag).toMatchObject({
+      ruleId: 'phishing.confusable',
+      snippet: 'https://bit.ly/x',
+      message:
+        'Possible PayPal phishing link: paypa1-login.com (redirects from bit.ly)',
+      link: {
+        host: 'bit.ly',
+        redirects: ['https://bit.ly/x', 'https://paypa1-login.com/'],
+      },
+    });
+  });
+
+  it('needs both the lookalike and the lure', () => {
+    expect(phishingDetector('Check out paypa1-login.com')).toEqual([]);
+    expect(
+      phishingDetector('Verify your account at https://www.paypal.com')
+    ).toEqual([]);
+  });
+});
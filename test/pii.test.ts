@@ -0,0 +1,153 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../src/config.js', () => ({
+  config: {
+    pii: { defaultRegion: 'US' },
+  },
+}));
+
+import {
+  findPII,
+  validatePhoneNumber,
+  cardBrand,
+  redactPII,
+} from '../src/pii/index.js';
+import { piiDetector } from '../src/detectors/pii.js';
+
+const types = (text: string, region?: string) =>
+  findPII(text, { region }).map((m) => [m.type, m.value]);
+
+describe('findPII', () => {
+  it('finds every email, not just the first', () => {
+    expect(types('mail a@example.com or b@example.org')).toEqual([
+      ['email', 'a@example.com'],
+      ['email', 'b@example.org'],
+    ]);
+  });
+
+  it('validates phone numbers by country', () => {
+    expect(types('call +44 20 7946 0958 or +1-202-555-0172')).toEqual([
+      ['phone', '+44 20 7946 0958'],
+      ['phone', '+1-202-555-0172'],
+    ]);
+    expect(types('office: (202) 555-0172')).toEqual([
+      ['phone', '(202) 555-0172'],
+    ]);
+    expect(types('ring 020 7946 0958', 'GB')).toEqual([
+      ['phone', '020 7946 0958'],
+    ]);
+  });
+
+  it('ignores years, prices and short numbers', () => {
+    expect(
+      types(
+        'In 2023 we sold 1500 units for $1,250,000 (up 12.5%), ext 555-0172'
+      )
+    ).toEqual([]);
+    expect(types('order 2024-01-15 shipped 10.000.000 items')).toEqual([]);
+  });
+
+  it('ignores dates and clock times', () => {
+    expect(types('ts 2024-01-15 12:00')).toEqual([]);
+    expect(types('logged 2024-01-15 12:30:45 and 2024-01-15 1230')).toEqual([]);
+    expect(types('opens at 10:30 1500 2000, closes 18:00')).toEqual([]);
+  });
+
+  it('requires a known IIN prefix and a Luhn pass for cards', () => {
+    expect(types('card 4111 1111 1111 1111 and 378282246310005')).toEqual([
+      ['card', '4111 1111 1111 1111'],
+      ['card', '378282246310005'],
+    ]);
+    expect(types('card 4111 1111 1111 1112')).toEqual([]);
+    expect(cardBrand('5555555555554444')).toBe('Mastercard');
+    expect(cardBrand('9111111111111111')).toBeNull();
+  });
+
+  it('checks IBAN length and mod-97 checksum', () => {
+    expect(
+      types('pay DE89 3704 0044 0532 0130 00 or GB82WEST12345698765432')
+    ).toEqual([
+      ['iban', 'DE89 3704 0044 0532 0130 00'],
+      ['iban', 'GB82WEST12345698765432'],
+    ]);
+    expect(types('pay DE89 3704 0044 0532 0130 01')).toEqual([]);
+  });
+
+  it('finds US SSNs but not never-issued ranges', () => {
+    expect(types('ssn 123-45-6789')).toEqual([['ssn', '123-45-6789']]);
+    expect(types('000-12-3456 666-12-3456 912-34-5678 123-00-4567')).toEqual(
+      []
+    );
+  });
+
+  it('finds IPv4 and IPv6 addresses', () => {
+    expect(types('from 192.168.1.20 and 2001:db8::ff00:42:8329')).toEqual([
+      ['ip', '192.168.1.20'],
+      ['ip', '2001:db8::ff00:42:8329'],
+    ]);
+    expect(types('version 1.2.3 at 12:30:45, or 999.1.1.1')).toEqual([]);
+    expect(types('version 1.2.3.4, ver. 10.0.0.1 or v 2.0.1.7')).toEqual([]);
+  });
+
+  it('verifies crypto wallet checksums', () => {
+    expect(
+      types(
+        'btc 1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq eth 0xde0B295669a9FD93d5F28D9Ec85E40f4cb697BAe'
+      ).map(([type]) => type)
+    ).toEqual(['crypto', 'crypto', 'crypto']);
+    expect(types('btc 1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNb')).toEqual([]);
+    expect(types('bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdx')).toEqual([]);
+  });
+
+  it('finds street addresses', () => {
+    expect(
+      types('Send it to 1600 Pennsylvania Avenue, Washington, DC 20500 please')
+    ).toEqual([['address', '1600 Pennsylvania Avenue, Washington, DC 20500']]);
+  });
+});
+
+describe('validatePhoneNumber', () => {
+  it('applies national plan rules', () => {
+    expect(validatePhoneNumber('2025550172', false, 'US')).toBe('US');
+    expect(validatePhoneNumber('1025550172', false, 'US')).toBeNull();
+    expect(validatePhoneNumber('4930901820', true, 'US')).toBe('DE');
+  });
+});
+
+describe('piiDetector', () => {
+  it('tags each flag with its piiType', () => {
+    const text = 'ssn 123-45-6789, email a@example.com';
+    const flags = piiDetector(text);
+    expect(flags.map((f) => f.piiType)).toEqual(['ssn', 'email']);
+    for (const flag of flags) {
+      expect(text.slice(...flag.indices!)).toBe(flag.snippet);
+    }
+  });
+});
+
+describe('redactPII', () => {
+  const text = 'card 4111 1111 1111 1111, mail jo@example.com';
+  const flags = piiDetector(text);
+
+  it('masks PII spans completely', () => {
+    expect(redactPII(text, flags, 'mask')).toBe(
+      'card *******************, mail **************'
+    );
+  });
+
+  it('keeps the last four characters and separators', () => {
+    expect(redactPII(text, flags, 'last4')).toBe(
+      'card **** **** **** 1111, mail **@******e.com'
+    );
+  });
+
+  it('replaces spans with type tokens', () => {
+    expect(redactPII(text, flags, 'token')).toBe('card [CARD], mail [EMAIL]');
+  });
+
+  it('redacts overlapping or duplicate flags once', () => {
+    expect(redactPII(text, [...flags, ...flags], 'token')).toBe(
+      'card [CARD], mail [EMAIL]'
+    );
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../src/config.js', () => ({
+  config: {
+    enableLLM: false,
+    enableRekognition: false,
+    enableSupabase: false,
+    debug: true,
+    thresholds: { block: 70, review: 30, duplicate: 0.15 },
+    weights: { rule: 1.0, ml: 0.8, vision: 0.9, metadata: 0.3 },
+    scoring: { strategy: 'additive' },
+    temporal: { burstHour: 10, burstDay: 50 },
+    account: { newAccountDays: 7, maxViolations: 5 },
+  },
+}));
+
+import { calculateModerationScore } from '../src/scoring.js';
+import { getPlatformProfile } from '../src/platforms.js';
+import type { Flag } from '../src/schema.js';
+
+const sexualFlag: Flag = {
+  source: 'rule',
+  category: 'sexual',
+  weight: 55,
+  message: 'Matched phrase: nsfw',
+};
+
+describe('platform profiles', () => {
+  it('falls back to global thresholds for the generic profile', () => {
+    expect(getPlatformProfile('generic').thresholds).toEqual({
+      review: 30,
+      block: 70,
+    });
+    expect(getPlatformProfile('unknown').name).toBe('generic');
+    for (const inherited of ['constructor', 'toString', '__proto__']) {
+      expect(getPlatformProfile(inherited).name).toBe('generic');
+    }
+  });
+
+  it('applies category multipliers and thresholds per platform', () => {
+    const generic = calculateModerationScore([sexualFlag], undefined);
+    const x = calculateModerationScore([sexualFlag], undefined, 'x');
+    const instagram = calculateModerationScore(
+      [sexualFlag],
+      undefined,
+      'instagram'
+    );
+
+    expect(generic.score).toBe(55);
+    expect(generic.label).toBe('review');
+    expect(x.label).toBe('review');
+    expect(instagram.score).toBe(66);
+    expect(instagram.label).toBe('block');
+  });
+
+  it('reports the applied profile in debug output', () => {
+    const r = calculateModerationScore([sexualFlag], undefined, 'instagram');
+    expect(r.debug?.platform).toEqual({
+      name: 'instagram',
+      weights: { sexual: 1.2 },
+      thresholds: { review: 25, block: 65 },
+    });
+  });
+});
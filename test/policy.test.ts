@@ -0,0 +1,96 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../src/config.js', () => ({
+  config: {
+    debug: false,
+    thresholds: { block: 70, review: 30, duplicate: 0.15 },
+    weights: { rule: 1.0, ml: 0.8, vision: 0.9, metadata: 0.3 },
+    scoring: { strategy: 'additive' },
+    temporal: { burstHour: 10, burstDay: 50 },
+    account: { newAccountDays: 7, maxViolations: 5 },
+  },
+}));
+
+import { calculateModerationScore } from '../src/scoring.js';
+import { applyPolicy, getPlatformPolicy } from '../src/policy.js';
+import type { Flag } from '../src/schema.js';
+
+const flag = (category: string, weight: number): Flag => ({
+  source: 'rule',
+  category,
+  weight,
+  message: `${category} ${weight}`,
+});
+
+const policyFor = (flags: Flag[], platform = 'generic') =>
+  applyPolicy(
+    calculateModerationScore(flags, undefined, platform).explanation,
+    getPlatformPolicy(platform)
+  );
+
+describe('applyPolicy', () => {
+  it('scores each category and maps it onto actions', () => {
+    const { categories, actions } = policyFor([
+      flag('pii', 15),
+      flag('spam', 10),
+      flag('spam', 8),
+      flag('sexual', 35),
+    ]);
+    expect(categories).toEqual({
+      pii: { score: 15, actions: ['redact'] },
+      spam: { score: 18, actions: ['limit_reach'] },
+      sexual: { score: 35, actions: ['age_restrict'] },
+    });
+    // 68 overall: no category reaches review, the total does
+    expect(actions).toEqual([
+      'redact',
+      'age_restrict',
+      'limit_reach',
+      'review',
+    ]);
+  });
+
+  it('falls back to the wildcard rules for other categories', () => {
+    const { categories, actions } = policyFor([
+      flag('hate', 75),
+      flag('profanity', 5),
+    ]);
+    expect(categories.hate.actions).toEqual(['review', 'block']);
+    expect(categories.profanity.actions).toEqual(['allow']);
+    expect(actions).toEqual(['review', 'block']);
+  });
+
+  it('adds the review or block the overall score reached', () => {
+    const block = [flag('pii', 35), flag('spam', 40)];
+    expect(calculateModerationScore(block).label).toBe('block');
+    expect(policyFor(block)).toEqual({
+      categories: {
+        pii: { score: 35, actions: ['redact'] },
+        spam: { score: 40, actions: ['limit_reach'] },
+      },
+      actions: ['redact', 'limit_reach', 'block'],
+    });
+
+    const review = [flag('pii', 20), flag('spam', 12)];
+    expect(calculateModerationScore(review).label).toBe('review');
+    expect(policyFor(review).actions).toEqual(['redact', 'review']);
+  });
+
+  it('allows content without flags', () => {
+    expect(policyFor([])).toEqual({ categories: {}, actions: ['allow'] });
+  });
+
+  it('applies platform overrides per category', () => {
+    const flags = [flag('sexual', 20)];
+    expect(policyFor(flags).actions).toEqual(['allow']);
+    // Instagram weights sexual content by 1.2 and age-gates from 20
+    expect(policyFor(flags, 'instagram').categories.sexual).toEqual({
+      score: 24,
+      actions: ['age_restrict'],
+    });
+    expect(
+      getPlatformPolicy('instagram').filter((r) => r.category === 'sexual')
+    ).toHaveLength(3);
+    expect(getPlatformPolicy('unknown')).toEqual(getPlatformPolicy());
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../src/config.js', () => ({
+  config: {
+    debug: false,
+    thresholds: { block: 70, review: 30, duplicate: 0.15 },
+    weights: { rule: 1.0, ml: 0.8, vision: 0.9, metadata: 0.3 },
+    scoring: { strategy: 'probabilistic', model: 'noisy-or', prior: 0.01 },
+    temporal: { burstHour: 10, burstDay: 50 },
+    account: { newAccountDays: 7, maxViolations: 5 },
+  },
+}));
+
+import { config } from '../src/config.js';
+import {
+  applyOddsMultiplier,
+  calibrate,
+  combineProbabilities,
+} from '../src/probabilistic.js';
+import {
+  calculateModerationScore,
+  rescoreExplanation,
+} from '../src/scoring.js';
+import { explainCounterfactual } from '../src/counterfactual.js';
+import type { Flag } from '../src/schema.js';
+
+const flag = (category: string, weight: number): Flag => ({
+  source: 'rule',
+  category,
+  weight,
+  message: `${category} ${weight}`,
+});
+
+describe('calibrate', () => {
+  it('interpolates per-category curves and clamps at the ends', () => {
+    expect(calibrate('spam', 10)).toBeCloseTo(0.08);
+    expect(calibrate('spam', 20)).toBeCloseTo(0.19);
+    expect(calibrate('selfharm', 10)).toBeCloseTo(0.3);
+    expect(calibrate('unknown', 10)).toBeCloseTo(0.15);
+    expect(calibrate('spam', -5)).toBe(0.01);
+    expect(calibrate('spam', 500)).toBe(0.85);
+  });
+});
+
+describe('combineProbabilities', () => {
+  it('combines with noisy-OR', () => {
+    expect(combineProbabilities([0.5, 0.5], 'noisy-or', 0.01)).toBe(0.75);
+    expect(combineProbabilities([], 'noisy-or', 0.01)).toBe(0);
+  });
+
+  it('adds log-odds evidence to the prior', () => {
+    expect(combineProbabilities([], 'log-odds', 0.01)).toBeCloseTo(0.01);
+    expect(combineProbabilities([0.5], 'log-odds', 0.01)).toBeCloseTo(0.5);
+    expect(combineProbabilities([0.5, 0.5], 'log-odds', 0.5)).toBeCloseTo(0.5);
+    expect(combineProbabilities([0.9, 0.9], 'log-odds', 0.5)).toBeCloseTo(
+      81 / 82
+    );
+  });
+
+  it('scales odds without leaving 0..1', () => {
+    expect(applyOddsMultiplier(0.5, 3)).toBe(0.75);
+    expect(applyOddsMultiplier(0.99, 3)).toBeLessThan(1);
+    expect(applyOddsMultiplier(0.5, 0.5)).toBeCloseTo(1 / 3);
+  });
+});
+
+describe('probabilistic scoring', () => {
+  it('lets one severe flag outweigh several weak ones', () => {
+    const weak = calculateModerationScore(
+      Array.from({ length: 5 }, () => flag('spam', 10))
+    );
+    const severe = calculateModerationScore([flag('selfharm', 50)]);
+    expect(weak.label).toBe('review');
+    expect(severe.label).toBe('block');
+    expect(severe.score).toBeGreaterThan(weak.score);
+    expect(weak.explanation).toMatchObject({
+      strategy: 'probabilistic',
+      model: 'noisy-or',
+    });
+    expect(weak.explanation.baseScore).toBeCloseTo(100 * (1 - 0.92 ** 5));
+  });
+
+  it('applies context multipliers to the odds', () => {
+    const result = calculateModerationScore([flag('spam', 10)], {
+      account: { createdAt: new Date().toISOString() },
+    });
+    const [account] = result.explanation.multipliers;
+    expect(account.value).toBe(1.5);
+    expect(account.scoreAfter / 100).toBeCloseTo(
+      applyOddsMultiplier(0.08, 1.5)
+    );
+    expect(
+      rescoreExplanation(
+        result.explanation,
+        result.explanation.flags,
+        result.explanation.multipliers
+      )
+    ).toBe(result.explanation.finalScore);
+  });
+
+  it('supports the log-odds model', () => {
+    config.scoring.model = 'log-odds';
+    try {
+      const { explanation } = calculateModerationScore([flag('hate', 30)]);
+      expect(explanation).toMatchObject({ model: 'log-odds', prior: 0.01 });
+      expect(explanation.finalScore).toBeCloseTo(60);
+    } finally {
+      config.scoring.model = 'noisy-or';
+    }
+  });
+
+  it('finds counterfactuals on probabilities', () => {
+    const result = calculateModerationScore([
+      flag('selfharm', 50),
+      flag('spam', 10),
+    ]);
+    const cf = explainCounterfactual(result);
+    expect(cf.remove?.flags.map((f) => f.category)).toEqual(['selfharm']);
+    expect(cf.scoreAfter).toBeCloseTo(8);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+vi.mock('../src/config.js', () => ({
+  config: {
+    enableLLM: false,
+    enableRekognition: false,
+    enableSupabase: false,
+    debug: true,
+    thresholds: { block: 70, review: 30, duplicate: 0.15 },
+    weights: { rule: 1.0, ml: 0.8, vision: 0.9, metadata: 0.3 },
+    scoring: { strategy: 'additive' },
+    wordlist: { matchMode: 'token' },
+    language: { detect: true, minConfidence: 0.5 },
+    pii: { defaultRegion: 'US' },
+    links: { followRedirects: false, maxHops: 5, timeoutMs: 3000 },
+    phishing: {},
+    detectors: { order: [], disabled: [] },
+    consolidation: { strategy: 'diminishing', decay: 0.5 },
+    spam: {},
+    decisions: {},
+    social: { hashtagThreshold: 30, mentionThreshold: 10, emojiThreshold: 30 },
+    temporal: { burstHour: 10, burstDay: 50 },
+    account: { newAccountDays: 7, maxViolations: 5 },
+  },
+}));
+
+import {
+  getActiveDetectors,
+  registerDetector,
+  runDetectors,
+  unregisterDetector,
+  type Detector,
+} from '../src/detectors/index.js';
+import { moderateContent } from '../src/engine.js';
+import { config } from '../src/config.js';
+
+const ids = (detectors: Detector[]) => detectors.map((d) => d.id);
+
+const coupons: Detector = {
+  id: 'coupons',
+  categories: ['spam'],
+  version: '0.1.0',
+  detect: (text) => {
+    const start = text.indexOf('COUPON');
+    return start < 0
+      ? []
+      : [
+          {
+            source: 'rule',
+            category: 'spam',
+            weight: 12,
+            message: 'Coupon spam',
+            indices: [start, start + 6],
+            snippet: 'COUPON',
+          },
+        ];
+  },
+};
+
+afterEach(() => {
+  unregisterDetector('coupons');
+  unregisterDetector('broken');
+});
+
+describe('detector registry', () => {
+  it('runs built-ins in registration order, honouring order and disabled', () => {
+    expect(ids(getActiveDetectors())).toEqual([
+      'wordlist',
+      'pii',
+      'links',
+      'phishing',
+      'spam',
+      'social',
+      'tenant',
+    ]);
+    expect(
+      ids(getActiveDetectors(['spam', 'pii'], ['links', 'tenant']))
+    ).toEqual(['spam', 'pii', 'wordlist', 'phishing', 'social']);
+  });
+
+  it('runs third-party detectors and times each one', async () => {
+    registerDetector(coupons);
+    const { flags, timings } = await runDetectors('use COUPON now');
+    expect(flags.map((f) => f.message)).toEqual(['Coupon spam']);
+    expect(Object.keys(timings)).toContain('coupons');
+  });
+
+  it('skips a detector that throws', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    registerDetector({
+      id: 'broken',
+      categories: [],
+      version: '1.0.0',
+      detect: () => {
+        throw new Error('boom');
+      },
+    });
+    registerDetector(coupons);
+    const { flags } = await runDetectors('COUPON');
+    expect(flags).toHaveLength(1);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe('engine integration', () => {
+  it('runs each detector once and reports per-detector timings', async () => {
+    const result = await moderateContent(
+      'mail test@example.com or visit https://bit.ly/abc'
+    );
+    const messages = result.flags.map((f) => f.message);
+    expect(messages.filter((m) => m.startsWith('Email'))).toHaveLength(1);
+    expect(
+      messages.filter((m) => m === 'Suspicious link shortener')
+    ).toHaveLength(1);
+    expect(Object.keys(result.debug?.detectors ?? {})).toEqual(
+      ids(getActiveDetectors())
+    );
+  });
+
+  it('follows each shortened link once for the links and phishing detectors', async () => {
+    const fetcher = vi.fn(async (url: string) =>
+      url === 'https://bit.ly/abc'
+        ? { status: 301, location: 'https://paypa1-login.com/' }
+        : { status: 200 }
+    );
+    config.links.followRedirects = true;
+    try {
+      const result = await moderateContent(
+        'Your account has been suspended. Verify your account at https://bit.ly/abc',
+        undefined,
+        { linkFetcher: fetcher }
+      );
+      expect(result.flags.map((f) => f.ruleId)).toEqual(
+        expect.arrayContaining(['links.redirect', 'phishing.confusable'])
+      );
+      expect(fetcher).toHaveBeenCalledTimes(2);
+    } finally {
+      config.links.followRedirects = false;
+    }
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../src/config.js', () => ({
+  config: {
+    social: { hashtagThreshold: 5, mentionThreshold: 3, emojiThreshold: 6 },
+  },
+}));
+
+import { tokenizeSocial } from '../src/social.js';
+import { socialDetector } from '../src/detectors/social.js';
+
+const tokens = (text: string) =>
+  tokenizeSocial(text).map((t) => [t.type, t.raw]);
+
+describe('tokenizeSocial', () => {
+  it('finds hashtags and mentions at word boundaries', () => {
+    expect(
+      tokens('#Sale for @jane.doe and ＃café, mail me@example.com #1 a#b')
+    ).toEqual([
+      ['hashtag', '#Sale'],
+      ['mention', '@jane.doe'],
+      ['hashtag', '＃café'],
+    ]);
+  });
+
+  it('skips fragments and handles inside links', () => {
+    expect(
+      tokens(
+        'see https://x.com/#section, https://x.com/@jane and example.com/#top #real @bob'
+      )
+    ).toEqual([
+      ['hashtag', '#real'],
+      ['mention', '@bob'],
+    ]);
+  });
+
+  it('keeps combining marks inside tags', () => {
+    const text = '#नमस्ते दुनिया';
+    expect(tokens(text)).toEqual([['hashtag', '#नमस्ते']]);
+  });
+
+  it('treats ZWJ sequences, flags and skin tones as one emoji', () => {
+    const family = '👨\u200d👩\u200d👧';
+    const text = `${family} 🇺🇸 👍🏽 1️⃣ ❤️ ©`;
+    const emoji = tokenizeSocial(text);
+    expect(emoji.map((t) => t.raw)).toEqual([family, '🇺🇸', '👍🏽', '1️⃣', '❤️']);
+    expect(emoji[2].value).toBe('👍');
+    for (const t of emoji) expect(text.slice(t.start, t.end)).toBe(t.raw);
+  });
+});
+
+describe('socialDetector', () => {
+  it('flags hashtag stuffing and mass mentions with spans', () => {
+    const text = 'buy now #a1 #b2 #c3 #d4 #e5 cc @x @y @z';
+    const flags = socialDetector(text);
+    expect(flags.map((f) => [f.ruleId, f.snippet])).toEqual([
+      ['spam.hashtag-stuffing', '#a1 #b2 #c3 #d4 #e5'],
+      ['spam.mass-mentions', '@x @y @z'],
+    ]);
+  });
+
+  it('does not count link fragments as hashtags', () => {
+    const text = ['a', 'b', 'c', 'd', 'e']
+      .map((part) => `https://docs.example.com/#${part}1`)
+      .join(' ');
+    expect(socialDetector(text)).toEqual([]);
+  });
+
+  it('flags emoji floods', () => {
+    expect(socialDetector('😂😂😂😂😂😂').map((f) => f.ruleId)).toEqual([
+      'spam.emoji-flood',
+    ]);
+  });
+
+  it('recognises coded emoji combinations', () => {
+    const text = 'hit me up 🔌 💊❄️ fast delivery 📦';
+    const flags = socialDetector(text);
+    expect(flags.map((f) => [f.ruleId, f.category, f.snippet])).toEqual([
+      ['emoji.drugs.plug', 'drugs', '🔌 💊'],
+    ]);
+    expect(text.slice(...flags[0].indices!)).toBe(flags[0].snippet);
+  });
+
+  it('ignores emoji separated by words', () => {
+    expect(socialDetector('my 🔌 broke, need 💊 for my headache')).toEqual([]);
+  });
+
+  it('matches emoji regardless of skin tone or VS16', () => {
+    const flags = socialDetector('❄ 👃🏿');
+    expect(flags.map((f) => f.ruleId)).toEqual(['emoji.drugs.cocaine']);
+  });
+});
@@ -0,0 +1,217 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, it, expect, vi, afterAll } from 'vitest';
+
+vi.mock('../src/config.js', () => ({
+  config: {
+    spam: {},
+  },
+}));
+
+import {
+  compileSpamRule,
+  loadSpamRules,
+  reloadSpamRules,
+  spamDetector,
+  SpamRuleSchema,
+  watchSpamRules,
+} from '../src/detectors/spam.js';
+
+const rule = (spec: Record<string, unknown>) =>
+  compileSpamRule(SpamRuleSchema.parse(spec));
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'spam-rules-'));
+afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+function writeRules(name: string, data: unknown): string {
+  const file = path.join(dir, name);
+  fs.writeFileSync(file, JSON.stringify(data));
+  return file;
+}
+
+describe('bundled spam rules', () => {
+  it('keeps the caps, punctuation and scam phrase checks', () => {
+    const flags = spamDetector('FREE MONEY GIVEAWAY!!!!');
+    expect(flags.map((f) => [f.ruleId, f.weight])).toEqual(
+      expect.arrayContaining([
+        ['spam.all-caps', 10],
+        ['spam.punctuation', 8],
+        ['spam.scam-phrase', 18],
+      ])
+    );
+  });
+
+  it('leaves ordinary text alone', () => {
+    expect(spamDetector('See you at the meeting tomorrow.')).toEqual([]);
+  });
+});
+
+describe('rule types', () => {
+  it('flags the first regex match', () => {
+    const check = rule({
+      id: 'x.regex',
+      type: 'regex',
+      pattern: 'win\\s+big',
+      flags: 'i',
+      weight: 5,
+      message: 'Matched {match}',
+    });
+    expect(check('you could WIN  big today')).toMatchObject({
+      indices: [10, 18],
+      snippet: 'WIN  big',
+      message: 'Matched WIN  big',
+      category: 'spam',
+    });
+  });
+
+  it('matches keywords on normalized whole tokens', () => {
+    const check = rule({
+      id: 'x.keywords',
+      type: 'keywords',
+      keywords: ['promo code'],
+      weight: 5,
+      category: 'scam',
+      message: 'Keyword {match}',
+    });
+    expect(check('use PR0M0 C0DE now')?.message).toBe('Keyword PR0M0 C0DE');
+    expect(check('promocodes')).toBeNull();
+  });
+
+  it('compares ratios against a minimum length', () => {
+    const check = rule({
+      id: 'x.ratio',
+      type: 'ratio',
+      pattern: '\\p{Emoji_Presentation}',
+      of: '\\S',
+      above: 0.5,
+      minLength: 4,
+      weight: 5,
+      message: 'Emoji ratio {ratio}',
+    });
+    expect(check('🔥🔥🔥 ok')).toMatchObject({
+      message: 'Emoji ratio 0.60',
+      aggregate: true,
+    });
+    expect(check('🔥')).toBeNull();
+    expect(check('nice 🔥')).toBeNull();
+  });
+
+  it('counts matches and spans them all', () => {
+    const check = rule({
+      id: 'x.count',
+      type: 'count',
+      pattern: '\\$',
+      atLeast: 3,
+      weight: 5,
+      message: '{count} dollar signs',
+    });
+    expect(check('$ a $ b $')).toMatchObject({
+      indices: [0, 9],
+      message: '3 dollar signs',
+    });
+    expect(check('$ a $')).toBeNull();
+  });
+
+  it('applies the rule flags to ratio and count patterns', () => {
+    const count = rule({
+      id: 'x.count-i',
+      type: 'count',
+      pattern: 'free',
+      flags: 'i',
+      atLeast: 2,
+      weight: 5,
+      message: '{count} frees',
+    });
+    expect(count('FREE stuff, Free money')?.message).toBe('2 frees');
+
+    const ratio = rule({
+      id: 'x.ratio-i',
+      type: 'ratio',
+      pattern: '[a-z]',
+      flags: 'i',
+      of: '\\S',
+      above: 0.9,
+      weight: 5,
+      message: 'Letters {ratio}',
+    });
+    expect(ratio('ABC def')?.message).toBe('Letters 1.00');
+  });
+});
+
+describe('rule files', () => {
+  it('skips disabled rules', () => {
+    const file = writeRules('disabled.json', {
+      version: 1,
+      rules: [
+        {
+          id: 'x.off',
+          type: 'regex',
+          pattern: 'a',
+          weight: 1,
+          message: 'off',
+          enabled: false,
+        },
+      ],
+    });
+    expect(loadSpamRules(file)).toHaveLength(0);
+  });
+
+  it('keeps the previous rules when a reload fails', () => {
+    const good = writeRules('good.json', {
+      version: 1,
+      rules: [
+        {
+          id: 'x.custom',
+          type: 'keywords',
+          keywords: ['cheap pills'],
+          weight: 30,
+          message: 'Pharma spam',
+        },
+      ],
+    });
+    const bad = writeRules('bad.json', {
+      version: 1,
+      rules: [
+        { id: 'x.bad', type: 'regex', pattern: '(', weight: 1, message: '' },
+      ],
+    });
+
+    expect(reloadSpamRules(good)).toBe(1);
+    expect(() => reloadSpamRules(bad)).toThrow();
+    expect(spamDetector('buy cheap pills').map((f) => f.ruleId)).toEqual([
+      'x.custom',
+    ]);
+  });
+
+  it('keeps watching after the file is replaced by a rename', async () => {
+    const keywordRules = (keyword: string) => ({
+      version: 1,
+      rules: [
+        {
+          id: `x.${keyword}`,
+          type: 'keywords',
+          keywords: [keyword],
+          weight: 1,
+          message: keyword,
+        },
+      ],
+    });
+    const file = writeRules('watched.json', keywordRules('alpha'));
+    reloadSpamRules(file);
+    const stop = watchSpamRules(file, 10);
+    const replace = (keyword: string) => {
+      const tmp = writeRules('watched.json.tmp', keywordRules(keyword));
+      fs.renameSync(tmp, file);
+    };
+
+    try {
+      replace('bravo');
+      await vi.waitFor(() => expect(spamDetector('bravo')).toHaveLength(1));
+      replace('charlie');
+      await vi.waitFor(() => expect(spamDetector('charlie')).toHaveLength(1));
+    } finally {
+      stop();
+    }
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  getTenantLists,
+  listTenants,
+  reloadTenantLists,
+  removeTenantList,
+  setTenantList,
+  tenantWordlistFlags,
+} from '../src/detectors/tenants.js';
+
+let dir: string;
+
+function writeList(tenant: string, category: string, data: unknown) {
+  fs.mkdirSync(path.join(dir, tenant), { recursive: true });
+  fs.writeFileSync(
+    path.join(dir, tenant, `${category}.json`),
+    JSON.stringify(data)
+  );
+}
+
+beforeAll(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tenant-lists-'));
+  writeList('acme', 'competitors', ['globex', 'initech']);
+  writeList('umbrella', 'profanity', {
+    version: 2,
+    entries: [{ id: 'umbrella.heck', term: 'heck', weight: 5 }],
+  });
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('tenant term lists', () => {
+  it('loads lists per tenant from a directory', () => {
+    expect(reloadTenantLists(dir).sort()).toEqual(['acme', 'umbrella']);
+
+    const flags = tenantWordlistFlags('Switch to Globex today', 'acme');
+    expect(flags).toHaveLength(1);
+    expect(flags[0]).toMatchObject({
+      category: 'competitors',
+      tenant: 'acme',
+      ruleId: 'acme/competitors:globex',
+      snippet: 'Globex',
+    });
+
+    // Lists are scoped to their tenant
+    expect(tenantWordlistFlags('Switch to Globex today', 'umbrella')).toEqual(
+      []
+    );
+    expect(tenantWordlistFlags('what the heck', 'umbrella')[0].weight).toBe(5);
+  });
+
+  it('keeps the previous lists when a reload fails', () => {
+    reloadTenantLists(dir);
+    writeList('acme', 'broken', { version: 2 });
+
+    expect(() => reloadTenantLists(dir)).toThrow(/broken\.json/);
+    expect(getTenantLists('acme').map((l) => l.category)).toEqual([
+      'competitors',
+    ]);
+
+    fs.rmSync(path.join(dir, 'acme', 'broken.json'));
+  });
+
+  it('layers API-set lists over directory lists', () => {
+    reloadTenantLists(dir);
+    setTenantList('acme', 'competitors', ['hooli']);
+
+    expect(tenantWordlistFlags('globex vs hooli', 'acme')).toHaveLength(1);
+    expect(listTenants().acme).toEqual([
+      { category: 'competitors', entries: 1, source: 'api' },
+    ]);
+
+    expect(removeTenantList('acme', 'competitors')).toBe(true);
+    expect(removeTenantList('acme', 'competitors')).toBe(false);
+    expect(tenantWordlistFlags('globex vs hooli', 'acme')[0].snippet).toBe(
+      'globex'
+    );
+  });
+
+  it('rejects unsafe tenant ids', () => {
+    expect(() => setTenantList('../etc', 'x', [])).toThrow();
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  matchRuleAt,
+  parseWordlist,
+  parseWordlistEntry,
+  wordlistDetector,
+} from '../src/detectors/wordlist.js';
+
+describe('wordlist entry markers', () => {
+  it('parses exact, inflect and wildcard markers', () => {
+    expect(parseWordlistEntry('=ass')).toMatchObject({
+      term: 'ass',
+      tail: 'exact',
+      anyPrefix: false,
+    });
+    expect(parseWordlistEntry('bitch').tail).toBe('inflect');
+    expect(parseWordlistEntry('*fuck*')).toMatchObject({
+      term: 'fuck',
+      tail: 'stem',
+      anyPrefix: true,
+    });
+  });
+
+  it('respects token boundaries', () => {
+    const ass = parseWordlistEntry('=ass');
+    expect(matchRuleAt('first class', ass, 8)).toBeNull();
+    expect(matchRuleAt('you ass', ass, 4)).toEqual([4, 7]);
+    expect(matchRuleAt('you asses', ass, 4)).toBeNull();
+    expect(matchRuleAt('class', ass, 2, 'substring')).toEqual([2, 5]);
+  });
+});
+
+describe('wordlistDetector token matching', () => {
+  const profanity = wordlistDetector('profanity', 'en/profanity', 18);
+
+  it('avoids Scunthorpe-style false positives', () => {
+    expect(profanity('scrap metal for the class project')).toEqual([]);
+  });
+
+  it('matches inflections and stems', () => {
+    const flags = profanity('those bitches are fucking annoying, damn!');
+    expect(flags.map((f) => f.snippet)).toEqual(['bitches', 'fucking', 'damn']);
+    expect(flags[0].message).toContain('rule "bitch"');
+  });
+
+  it('extends any-prefix rules to the whole token', () => {
+    const [flag] = profanity('what a motherfucker');
+    expect(flag.snippet).toBe('motherfucker');
+  });
+});
+
+describe('wordlist file formats', () => {
+  it('accepts legacy string arrays', () => {
+    const [entry] = parseWordlist(['Crap'], 'profanity');
+    expect(entry).toMatchObject({
+      id: 'profanity:crap',
+      term: 'crap',
+      exceptions: [],
+    });
+    expect(entry.weight).toBeUndefined();
+  });
+
+  it('applies v2 defaults and per-entry overrides', () => {
+    const entries = parseWordlist(
+      {
+        version: 2,
+        defaults: { weight: 10, severity: 'low' },
+        entries: [
+          'heck',
+          { id: 'p.darn', term: 'darn', weight: 4, rationale: 'Minced oath' },
+        ],
+      },
+      'mild'
+    );
+    expect(entries[0]).toMatchObject({ id: 'mild:heck', weight: 10 });
+    expect(entries[1]).toMatchObject({
+      id: 'p.darn',
+      weight: 4,
+      severity: 'low',
+      rationale: 'Minced oath',
+    });
+  });
+
+  it('rejects malformed lists', () => {
+    expect(() => parseWordlist({ version: 3 }, 'bad')).toThrow();
+  });
+
+  it('carries entry metadata onto flags and honours exceptions', () => {
+    const profanity = wordlistDetector('profanity', 'en/profanity', 18);
+    const [damn] = profanity('damn it');
+    expect(damn).toMatchObject({
+      ruleId: 'profanity.damn',
+      weight: 8,
+      severity: 'low',
+    });
+    expect(damn.rationale).toBeDefined();
+    expect(profanity('oh piss off')).toEqual([]);
+  });
+});